@@ -0,0 +1,74 @@
+import readline from 'readline';
+import { ConversationService, ReplyChannel } from '../components/ConversationService';
+import { toPlainText } from '../utils/telegramHtml';
+import { ReplyButton } from '../models';
+
+/**
+ * Terminal REPL for the conversation service: each line is a message from one local user
+ * Lets developers try links, questions and commands without a Telegram bot
+ */
+export class CliAdapter {
+  /**
+   * @param userId - User the lines are sent as; sessions and quotas are kept for this ID
+   */
+  constructor(
+    private conversationService: ConversationService,
+    private input: NodeJS.ReadableStream = process.stdin,
+    private output: NodeJS.WritableStream = process.stdout,
+    private userId: string = 'cli'
+  ) {}
+
+  /**
+   * Reads messages until end of input or /quit
+   */
+  async start(): Promise<void> {
+    const lines = readline.createInterface({ input: this.input, terminal: false });
+    const channel = this.createChannel();
+
+    this.output.write('Send a YouTube link, a question or a command. /quit exits.\n> ');
+
+    // Lines are handled one at a time, like messages in a chat
+    for await (const line of lines) {
+      const text = line.trim();
+      if (text === '/quit' || text === '/exit') {
+        break;
+      }
+
+      if (text) {
+        await this.conversationService.handleMessage({ userId: this.userId, text }, channel);
+      }
+      this.output.write('> ');
+    }
+
+    lines.close();
+  }
+
+  private createChannel(): ReplyChannel {
+    return {
+      send: async (text, buttons) => {
+        this.write(text, buttons);
+      },
+      // Earlier output cannot be edited, so status updates are written like new replies
+      sendStatus: async (text) => {
+        this.write(text);
+        return {
+          update: async (newText, buttons) => {
+            this.write(newText, buttons);
+          },
+        };
+      },
+      showTyping: async () => {
+        this.output.write('…\n');
+      },
+    };
+  }
+
+  /**
+   * Writes a reply as plain text; buttons are listed with the command to type instead
+   */
+  private write(text: string, buttons: ReplyButton[][] = []): void {
+    const actions = buttons.flat().map((button) => `[${button.text}: ${button.command}]`);
+    const footer = actions.length > 0 ? `\n\n${actions.join('  ')}` : '';
+    this.output.write(`\n${toPlainText(text)}${footer}\n\n`);
+  }
+}
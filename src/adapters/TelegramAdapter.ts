@@ -0,0 +1,206 @@
+import TelegramBot from 'node-telegram-bot-api';
+import { config } from '../config';
+import { ConversationService, InlineResult, ReplyChannel } from '../components/ConversationService';
+import { splitMessage } from '../utils/messageSplitter';
+import { toMarkdown, toPlainText } from '../utils/telegramHtml';
+import { logger } from '../utils/logger';
+import { ReplyButton } from '../models';
+
+const INLINE_CACHE_SECONDS = 300; // how long Telegram may reuse a final inline answer
+
+/**
+ * Feeds Telegram messages into the conversation service and sends its replies to the chat
+ * Replies are sent as HTML, split when over Telegram's length limit; a part Telegram cannot
+ * parse is sent again as plain text. Reply buttons become an inline keyboard under the last
+ * part, and pressing one is handled like the user typing its command. Inline queries
+ * ("@bot <YouTube link>" in any chat) are answered with the video's summary
+ */
+export class TelegramAdapter {
+  /**
+   * @param maxMessageParts - Longer replies also come as a Markdown document; 0 always splits
+   * @param inlineAnswerTimeoutMs - How long an inline query waits for a summary that is not cached
+   */
+  constructor(
+    private bot: TelegramBot,
+    private conversationService: ConversationService,
+    private maxMessageParts: number = config.telegram.maxMessageParts,
+    private inlineAnswerTimeoutMs: number = config.telegram.inlineAnswerTimeoutMs
+  ) {}
+
+  start(): void {
+    this.bot.on('message', async (msg) => {
+      const chatId = msg.chat.id;
+      const userId = msg.from?.id.toString() || chatId.toString();
+
+      await this.deliver(chatId, () =>
+        this.conversationService.handleMessage({ userId, text: msg.text || '' }, this.createChannel(chatId))
+      );
+    });
+
+    this.bot.on('callback_query', async (query) => {
+      // Stops the loading indicator on the button
+      try {
+        await this.bot.answerCallbackQuery(query.id);
+      } catch (error: any) {
+        // Expected for buttons pressed a while after the reply was sent ("query is too old")
+        logger.warning('Failed to answer callback query', { error: error.message });
+      }
+
+      const chatId = query.message?.chat.id;
+      const text = query.data;
+      if (chatId === undefined || !text) {
+        return;
+      }
+
+      await this.deliver(chatId, () =>
+        this.conversationService.handleMessage(
+          { userId: query.from.id.toString(), text },
+          this.createChannel(chatId)
+        )
+      );
+    });
+
+    this.bot.on('inline_query', async (query) => {
+      const answer = await this.conversationService.handleInlineQuery(
+        { userId: query.from.id.toString(), text: query.query },
+        this.inlineAnswerTimeoutMs
+      );
+
+      try {
+        await this.bot.answerInlineQuery(query.id, answer.results.map((result) => this.inlineArticle(result)), {
+          // Results depend on the user's language and quota
+          is_personal: true,
+          cache_time: answer.final ? INLINE_CACHE_SECONDS : 0,
+        });
+      } catch (error: any) {
+        // Expected when the user kept typing or the query timed out
+        logger.warning('Failed to answer inline query', { error: error.message });
+      }
+    });
+  }
+
+  /**
+   * Handles one update; replies that cannot be delivered (e.g. the user blocked the bot) are
+   * logged, as a rejection escaping an event listener would end the process
+   */
+  private async deliver(chatId: number, handle: () => Promise<void>): Promise<void> {
+    try {
+      await handle();
+    } catch (error: any) {
+      logger.error('Failed to deliver reply', error, { chatId });
+    }
+  }
+
+  /**
+   * Inline results are posted as a single message, so only the first part of a long one is kept
+   */
+  private inlineArticle(result: InlineResult): TelegramBot.InlineQueryResultArticle {
+    return {
+      type: 'article',
+      id: result.id,
+      title: result.title,
+      description: result.description,
+      input_message_content: {
+        message_text: splitMessage(result.text)[0],
+        parse_mode: 'HTML',
+      },
+    };
+  }
+
+  private createChannel(chatId: number): ReplyChannel {
+    return {
+      send: async (text, buttons) => {
+        await this.sendParts(chatId, text, splitMessage(text), buttons);
+      },
+      sendStatus: async (text) => {
+        const message = await this.withPlainTextFallback(text, (part, options) =>
+          this.bot.sendMessage(chatId, part, options)
+        );
+        return {
+          // The status message shows the first part; the rest follow as new messages
+          update: async (newText, buttons) => {
+            const [first, ...rest] = splitMessage(newText);
+            const markup = rest.length === 0 ? this.keyboard(buttons) : {};
+            await this.withPlainTextFallback(first, (part, options) =>
+              this.bot.editMessageText(part, { ...options, ...markup, chat_id: chatId, message_id: message.message_id })
+            );
+            await this.sendParts(chatId, newText, rest, buttons, 1);
+          },
+        };
+      },
+      showTyping: async () => {
+        await this.bot.sendChatAction(chatId, 'typing');
+      },
+    };
+  }
+
+  /**
+   * Sends the parts of a reply in order; when the reply has more parts than allowed,
+   * only the first is sent as a message and the full text follows as a document
+   * @param buttons - Shown under the last message or the document
+   * @param sent - Parts of the reply already in the chat
+   */
+  private async sendParts(
+    chatId: number,
+    text: string,
+    parts: string[],
+    buttons?: ReplyButton[][],
+    sent: number = 0
+  ): Promise<void> {
+    const total = sent + parts.length;
+
+    if (this.maxMessageParts > 0 && total > this.maxMessageParts) {
+      if (sent === 0) {
+        await this.sendMessage(chatId, parts[0]);
+      }
+      await this.bot.sendDocument(
+        chatId,
+        Buffer.from(toMarkdown(text), 'utf8'),
+        { caption: `📄 The full reply is ${total} messages long, so here it is as a file.`, ...this.keyboard(buttons) },
+        { filename: 'reply.md', contentType: 'text/markdown' }
+      );
+      return;
+    }
+
+    for (let i = 0; i < parts.length; i++) {
+      await this.sendMessage(chatId, parts[i], i === parts.length - 1 ? buttons : undefined);
+    }
+  }
+
+  private async sendMessage(chatId: number, html: string, buttons?: ReplyButton[][]): Promise<void> {
+    const markup = this.keyboard(buttons);
+    await this.withPlainTextFallback(html, (text, options) => this.bot.sendMessage(chatId, text, { ...options, ...markup }));
+  }
+
+  private keyboard(buttons?: ReplyButton[][]): { reply_markup?: TelegramBot.InlineKeyboardMarkup } {
+    if (!buttons || buttons.length === 0) {
+      return {};
+    }
+
+    return {
+      reply_markup: {
+        inline_keyboard: buttons.map((row) => row.map((button) => ({ text: button.text, callback_data: button.command }))),
+      },
+    };
+  }
+
+  /**
+   * Sends HTML, or the same text without markup when Telegram rejects the entities,
+   * e.g. a tag cut in half by splitting
+   */
+  private async withPlainTextFallback<T>(
+    html: string,
+    send: (text: string, options: { parse_mode?: TelegramBot.ParseMode }) => Promise<T>
+  ): Promise<T> {
+    try {
+      return await send(html, { parse_mode: 'HTML' });
+    } catch (error: any) {
+      if (!/can't parse entities/i.test(error?.message || '')) {
+        throw error;
+      }
+
+      logger.warning('Telegram rejected HTML, sending plain text', { error: error.message });
+      return send(toPlainText(html), {});
+    }
+  }
+}
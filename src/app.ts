@@ -0,0 +1,59 @@
+// Wiring of the bot's components, shared by the Telegram bot and the CLI
+import { TranscriptFetcher } from './components/TranscriptFetcher';
+import { ContextManager } from './components/ContextManager';
+import { Summarizer } from './components/Summarizer';
+import { QAEngine } from './components/QAEngine';
+import { LanguageProcessor } from './components/LanguageProcessor';
+import { MessageRouter } from './components/MessageRouter';
+import { CommandHandler } from './components/CommandHandler';
+import { QuotaManager } from './components/QuotaManager';
+import { ConversationService } from './components/ConversationService';
+import { getAIProvider } from './utils/aiProvider';
+import { UsageTracker, MeteredProvider } from './utils/usageTracker';
+import { aiRequestDuration } from './utils/metrics';
+import { getStorage } from './storage';
+import { logger } from './utils/logger';
+
+export interface App {
+  conversationService: ConversationService;
+  contextManager: ContextManager;
+  aiProvider: MeteredProvider;
+}
+
+/**
+ * Creates all components with the configured providers and storage
+ */
+export function createApp(): App {
+  logger.info('Initializing components...');
+
+  // One provider instance is shared so all components use the same clients and failover state
+  // and every request's token usage is recorded
+  const usageTracker = new UsageTracker();
+  const aiProvider = new MeteredProvider(getAIProvider(), usageTracker);
+  const transcriptFetcher = new TranscriptFetcher();
+  // Quota counters are kept in the session store
+  const storage = getStorage();
+  const contextManager = new ContextManager(storage);
+  const quotaManager = new QuotaManager(storage);
+  usageTracker.onRecord((userId, usage) => {
+    quotaManager.addTokens(userId, usage.prompt_tokens + usage.completion_tokens);
+    aiRequestDuration.observe({ model: usage.model }, usage.latency_ms / 1000);
+  });
+  const summarizer = new Summarizer(aiProvider, transcriptFetcher);
+
+  const conversationService = new ConversationService({
+    contextManager,
+    transcriptFetcher,
+    summarizer,
+    qaEngine: new QAEngine(aiProvider),
+    languageProcessor: new LanguageProcessor(aiProvider),
+    messageRouter: new MessageRouter(),
+    commandHandler: new CommandHandler(contextManager, summarizer, aiProvider, transcriptFetcher, usageTracker),
+    quotaManager,
+    usageTracker,
+  });
+
+  logger.info('✅ All components initialized successfully');
+
+  return { conversationService, contextManager, aiProvider };
+}
@@ -0,0 +1,25 @@
+// Terminal entry point: talk to the bot without Telegram
+import { validateConfig } from './config';
+import { logger } from './utils/logger';
+import { createApp } from './app';
+import { CliAdapter } from './adapters/CliAdapter';
+
+try {
+  validateConfig({ requireTelegram: false });
+} catch (error) {
+  logger.critical('Configuration validation failed', error as Error);
+  process.exit(1);
+}
+
+const { conversationService, contextManager } = createApp();
+
+new CliAdapter(conversationService)
+  .start()
+  .then(() => {
+    contextManager.close();
+    process.exit(0);
+  })
+  .catch((error) => {
+    logger.critical('CLI failed', error as Error);
+    process.exit(1);
+  });
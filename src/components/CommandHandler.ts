@@ -1,24 +1,39 @@
 import { ContextManager } from './ContextManager';
 import { Summarizer } from './Summarizer';
+import { TranscriptFetcher } from './TranscriptFetcher';
+import { Summary, Transcript } from '../models';
+import { config } from '../config';
 import { logger } from '../utils/logger';
 import { getAIProvider, AIProvider } from '../utils/aiProvider';
+import { UsageTracker, UsageTotals } from '../utils/usageTracker';
+import { formatTimestamp } from '../utils/timeFormat';
+import { extractVideoId } from '../utils/urlParser';
+import { bold, code, escapeHtml } from '../utils/telegramHtml';
 
+/**
+ * Answers bot commands; replies are Telegram HTML
+ */
 export class CommandHandler {
-  private aiProvider: AIProvider;
-
+  /**
+   * @param aiProvider - Provider for completions
+   * @param transcriptFetcher - Fetches videos passed to /compare as links
+   * @param usageTracker - Source of the /usage report; the one recording the shared provider's usage
+   */
   constructor(
     private contextManager: ContextManager,
-    private summarizer: Summarizer
-  ) {
-    this.aiProvider = getAIProvider();
-  }
+    private summarizer: Summarizer,
+    private aiProvider: AIProvider = getAIProvider(),
+    private transcriptFetcher: TranscriptFetcher = new TranscriptFetcher(),
+    private usageTracker: UsageTracker = new UsageTracker()
+  ) {}
 
   /**
    * Handle /summary command
-   * Returns structured summary for active session
+   * Returns structured summary for active session; "/summary detailed" asks for a longer one
+   * Brief summaries are shared with the summary cache
    */
-  async handleSummaryCommand(userId: string): Promise<string> {
-    logger.info('Handling /summary command', { userId });
+  async handleSummaryCommand(userId: string, args: string = ''): Promise<string> {
+    logger.info('Handling /summary command', { userId, args });
 
     const session = await this.contextManager.getSession(userId);
     if (!session) {
@@ -26,17 +41,34 @@ export class CommandHandler {
     }
 
     try {
-      const summary = await this.summarizer.generateSummary(
-        session.transcript,
-        session.language
-      );
-      return this.summarizer.formatSummary(summary);
+      const summary = args.trim().toLowerCase() === 'detailed'
+        ? await this.summarizer.generateSummary(session.transcript, session.language, undefined, 'detailed')
+        : await this.briefSummary(session.transcript, session.language);
+      return this.summarizer.formatSummary(summary, session.video_id);
     } catch (error: any) {
       logger.error('Failed to generate summary', error, { userId });
       throw error;
     }
   }
 
+  /**
+   * Handle /translate command
+   * Switches the session to a language and returns the summary in it;
+   * later answers are translated too
+   * @param language - Supported language code
+   */
+  async handleTranslateCommand(userId: string, language: string): Promise<string> {
+    logger.info('Handling /translate command', { userId, language });
+
+    const session = await this.contextManager.getSession(userId);
+    if (!session) {
+      return 'No active session. Please send a YouTube link first.';
+    }
+
+    await this.contextManager.setLanguage(userId, language);
+    return this.handleSummaryCommand(userId);
+  }
+
   /**
    * Handle /actionpoints command
    * Extracts actionable items from transcript
@@ -77,6 +109,158 @@ export class CommandHandler {
     return 'Session cleared successfully. Send a new YouTube link to start over.';
   }
 
+  /**
+   * Handle /videos command
+   * Lists the videos in the user's library, newest first
+   */
+  async handleVideosCommand(userId: string): Promise<string> {
+    logger.info('Handling /videos command', { userId });
+
+    const sessions = await this.contextManager.listSessions(userId);
+    if (sessions.length === 0) {
+      return 'No videos yet. Please send a YouTube link first.';
+    }
+
+    const activeVideoId = (await this.contextManager.getSession(userId))?.video_id;
+    const now = Date.now();
+
+    const lines = sessions.map((session, index) => {
+      const marker = session.video_id === activeVideoId ? ' ✅' : '';
+      const duration = formatTimestamp(session.transcript.duration);
+      const lastUsed = this.formatAge(now - session.last_accessed.getTime());
+      return `${index + 1}. ${escapeHtml(session.transcript.title)}${marker}\n   ⏱ ${duration} • last used ${lastUsed}`;
+    });
+
+    return `${bold('🎬 Your videos:')}\n\n${lines.join('\n\n')}\n\nUse ${code('/switch <number>')} to continue with another video.`;
+  }
+
+  /**
+   * Handle /switch command
+   * Makes a video from the /videos list active again
+   */
+  async handleSwitchCommand(userId: string, args: string): Promise<string> {
+    logger.info('Handling /switch command', { userId, args });
+
+    const sessions = await this.contextManager.listSessions(userId);
+    if (sessions.length === 0) {
+      return 'No videos yet. Please send a YouTube link first.';
+    }
+
+    const position = Number(args.trim());
+    if (!Number.isInteger(position) || position < 1 || position > sessions.length) {
+      return `Please choose a video number between 1 and ${sessions.length}, e.g. ${code('/switch 1')}. Use /videos to see the list.`;
+    }
+
+    const session = await this.contextManager.switchSession(userId, sessions[position - 1].video_id);
+    if (!session) {
+      return 'That video is no longer available. Use /videos to see the current list.';
+    }
+
+    return `🔄 Switched to: ${bold(session.transcript.title)}\n\nAsk a question or use /summary to continue.`;
+  }
+
+  /**
+   * Handle /compare command
+   * Compares two videos given as numbers from /videos or as YouTube links;
+   * without arguments the two most recent videos are compared
+   * @param onCompare - Called once both videos are found, before they are compared
+   */
+  async handleCompareCommand(
+    userId: string,
+    args: string,
+    onCompare: () => Promise<void> = async () => undefined
+  ): Promise<string> {
+    logger.info('Handling /compare command', { userId, args });
+
+    const sessions = await this.contextManager.listSessions(userId);
+    const tokens = args.split(/\s+/).filter((token) => token.length > 0);
+    const usage = `Please choose two videos, e.g. ${code('/compare 1 2')} (numbers from /videos) or ${code('/compare <link> <link>')}.`;
+
+    if (tokens.length === 0 && sessions.length >= 2) {
+      tokens.push('1', '2');
+    }
+    if (tokens.length !== 2) {
+      return usage;
+    }
+
+    const transcripts: Transcript[] = [];
+    for (const token of tokens) {
+      const position = Number(token);
+      if (Number.isInteger(position) && position >= 1 && position <= sessions.length) {
+        transcripts.push(sessions[position - 1].transcript);
+        continue;
+      }
+
+      const videoId = extractVideoId(token);
+      if (!videoId) {
+        return usage;
+      }
+      transcripts.push(
+        this.contextManager.getCachedTranscript(videoId) || await this.transcriptFetcher.fetchTranscript(videoId)
+      );
+    }
+
+    if (transcripts[0].video_id === transcripts[1].video_id) {
+      return 'Please choose two different videos to compare.';
+    }
+
+    const language = (await this.contextManager.getSession(userId))?.language || 'en';
+    await onCompare();
+
+    try {
+      const comparison = await this.summarizer.generateComparison(
+        transcripts[0],
+        transcripts[1],
+        language,
+        (transcript) => this.briefSummary(transcript, language)
+      );
+      return this.summarizer.formatComparison(comparison);
+    } catch (error: any) {
+      logger.error('Failed to compare videos', error, { userId });
+      throw error;
+    }
+  }
+
+  /**
+   * Handle /usage command
+   * Reports token usage and estimated cost since startup; admins only
+   */
+  handleUsageCommand(userId: string): string {
+    logger.info('Handling /usage command', { userId });
+
+    if (!config.admin.userIds.includes(userId)) {
+      return 'This command is only available to bot admins.';
+    }
+
+    const report = this.usageTracker.getReport();
+    if (report.total.requests === 0) {
+      return `📊 No AI requests since ${report.since.toISOString()}.`;
+    }
+
+    const byCost = <K>(totals: Map<K, UsageTotals>) =>
+      [...totals.entries()].sort(([, a], [, b]) => b.cost - a.cost || this.tokens(b) - this.tokens(a));
+
+    const sections = [
+      `${bold(`📊 AI usage since ${report.since.toISOString()}`)}\n\nTotal: ${this.formatTotals(report.total)}`,
+      `${bold('🧩 By operation:')}\n` + byCost(report.by_operation)
+        .map(([operation, totals]) => `• ${operation}: ${this.formatTotals(totals)}`)
+        .join('\n'),
+      `${bold('🤖 By model:')}\n` + byCost(report.by_model)
+        .map(([model, totals]) => `• ${escapeHtml(model)}: ${this.formatTotals(totals)}`)
+        .join('\n'),
+      `${bold('👤 Top users:')}\n` + byCost(report.by_user)
+        .slice(0, 10)
+        .map(([user, totals]) => `• ${escapeHtml(user)}: ${this.formatTotals(totals)}`)
+        .join('\n'),
+    ];
+
+    if (report.unpriced_models.length > 0) {
+      sections.push(`⚠️ No price configured for: ${escapeHtml(report.unpriced_models.join(', '))} (counted as free)`);
+    }
+
+    return sections.join('\n\n');
+  }
+
   /**
    * Handle /help command
    * Returns usage instructions
@@ -84,29 +268,53 @@ export class CommandHandler {
   handleHelpCommand(): string {
     logger.info('Handling /help command');
 
-    return `🤖 YouTube Summarizer & Q&A Bot
+    return `${bold('🤖 YouTube Summarizer & Q&A Bot')}
 
-📝 How to use:
+${bold('📝 How to use:')}
 1. Send a YouTube link to get started
 2. Ask questions about the video
 3. Request summaries in different languages
 
-🎯 Available Commands:
+${bold('🎯 Available Commands:')}
 /summary - Get structured summary of current video
+${code('/summary detailed')} - Get a longer summary with more key points
+${code('/translate <language>')} - Summary in another language, e.g. ${code('/translate hi')}
 /actionpoints - Extract actionable items from video
+/videos - List your recent videos
+${code('/switch <n>')} - Continue with video n from /videos
+${code('/askall <question>')} - Ask one question across all your videos
+${code('/compare <a> <b>')} - Compare two videos (numbers from /videos or links)
 /clear - Clear current session and start over
 /help - Show this help message
 
-🌍 Language Support:
+${bold('🌍 Language Support:')}
 Request summaries in: English, Hindi, Tamil, Telugu, Kannada, Marathi
 Example: "Summarize in Hindi" or "हिंदी में बताओ"
 
-💡 Tips:
+${bold('💡 Tips:')}
 • You can ask follow-up questions
 • The bot remembers your conversation context
+• Each video keeps its own conversation, so you can switch back and forth
 • Sessions expire after 24 hours of inactivity`;
   }
 
+  /**
+   * Brief summary of a video, from the summary cache when it was already summarized in the language
+   * New summaries are cached only while the video's transcript is, as the cache drops them together
+   */
+  private async briefSummary(transcript: Transcript, language: string): Promise<Summary> {
+    const cached = this.contextManager.getCachedSummary(transcript.video_id, language);
+    if (cached) {
+      return cached;
+    }
+
+    const summary = await this.summarizer.generateSummary(transcript, language);
+    if (this.contextManager.getCachedTranscript(transcript.video_id)) {
+      this.contextManager.cacheSummary(transcript.video_id, language, summary);
+    }
+    return summary;
+  }
+
   /**
    * Extract actionable items from transcript using AI
    */
@@ -129,7 +337,7 @@ ${transcript.substring(0, 8000)}
 
 Return only valid JSON array of strings.`;
 
-    const response = await this.aiProvider.generateCompletion(systemPrompt, userPrompt, 0.3);
+    const response = await this.aiProvider.generateCompletion(systemPrompt, userPrompt, 0.3, { task: 'action_points' });
     
     try {
       const actionPoints = JSON.parse(response.content);
@@ -140,6 +348,36 @@ Return only valid JSON array of strings.`;
     }
   }
 
+  /**
+   * Format an elapsed time as a short relative age
+   */
+  private formatAge(ms: number): string {
+    const minutes = Math.floor(ms / 60000);
+    if (minutes < 1) {
+      return 'just now';
+    }
+    if (minutes < 60) {
+      return `${minutes} min ago`;
+    }
+
+    const hours = Math.floor(minutes / 60);
+    if (hours < 24) {
+      return `${hours} h ago`;
+    }
+
+    return `${Math.floor(hours / 24)} d ago`;
+  }
+
+  private formatTotals(totals: UsageTotals): string {
+    const averageLatency = Math.round(totals.latency_ms / totals.requests);
+    return `${totals.requests} req • ${totals.prompt_tokens} in / ${totals.completion_tokens} out tokens • ` +
+      `~$${totals.cost.toFixed(4)} • ${averageLatency} ms avg`;
+  }
+
+  private tokens(totals: UsageTotals): number {
+    return totals.prompt_tokens + totals.completion_tokens;
+  }
+
   /**
    * Format action points for display
    */
@@ -149,9 +387,9 @@ Return only valid JSON array of strings.`;
     }
 
     const formatted = actionPoints
-      .map((point, index) => `${index + 1}. ${point}`)
+      .map((point, index) => `${index + 1}. ${escapeHtml(point)}`)
       .join('\n\n');
 
-    return `📋 Action Points:\n\n${formatted}`;
+    return `${bold('📋 Action Points:')}\n\n${formatted}`;
   }
 }
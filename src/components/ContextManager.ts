@@ -1,17 +1,17 @@
-import { Session, Transcript, Chunk, QAPair } from '../models';
+import { Session, Transcript, Summary, QAPair } from '../models';
 import { logger } from '../utils/logger';
 import { config } from '../config';
 import { Mutex } from 'async-mutex';
+import { StorageAdapter, getStorage } from '../storage';
 
 export class ContextManager {
-  private sessions: Map<string, Session>;
-  private transcriptCache: Map<string, Transcript>;
   private userLocks: Map<string, Mutex>;
   private cleanupInterval: NodeJS.Timeout | null;
 
-  constructor() {
-    this.sessions = new Map();
-    this.transcriptCache = new Map();
+  /**
+   * @param storage - Backend for sessions and cached transcripts; defaults to the configured one
+   */
+  constructor(private storage: StorageAdapter = getStorage()) {
     this.userLocks = new Map();
     this.cleanupInterval = null;
     
@@ -20,7 +20,8 @@ export class ContextManager {
   }
 
   /**
-   * Creates a new session for a user and video
+   * Creates a session for a user and video and makes it the active one
+   * Sending a video that is already in the user's library resumes its session
    * @param userId - Telegram user ID
    * @param videoId - YouTube video ID
    * @param transcript - Video transcript
@@ -31,29 +32,71 @@ export class ContextManager {
     
     return await lock.runExclusive(async () => {
       const now = new Date();
+      const existing = this.storage.getSession(userId, videoId);
       
-      const session: Session = {
-        user_id: userId,
-        video_id: videoId,
-        transcript,
-        chunks: [],
-        history: [],
-        language: 'en',
-        created_at: now,
-        last_accessed: now
-      };
+      const session: Session = existing
+        ? { ...existing, transcript, last_accessed: now }
+        : {
+          user_id: userId,
+          video_id: videoId,
+          transcript,
+          chunks: [],
+          history: [],
+          language: 'en',
+          created_at: now,
+          last_accessed: now
+        };
 
-      this.sessions.set(userId, session);
+      this.storage.saveSession(session);
+      this.storage.setActiveSession(userId, videoId);
+      this.evictOldSessions(userId);
       
       // Cache the transcript
       this.cacheTranscript(videoId, transcript);
 
-      logger.info('Session created', { userId, videoId });
+      logger.info(existing ? 'Session resumed' : 'Session created', { userId, videoId });
       
       return session;
     });
   }
 
+  /**
+   * Lists the videos a user has sessions for
+   * @param userId - Telegram user ID
+   * @returns Sessions, most recently created first
+   */
+  async listSessions(userId: string): Promise<Session[]> {
+    const lock = this.getUserLock(userId);
+
+    return await lock.runExclusive(async () => this.storage.listSessions(userId));
+  }
+
+  /**
+   * Makes one of the user's video sessions active again, with its history intact
+   * @param userId - Telegram user ID
+   * @param videoId - YouTube video ID of the session to switch to
+   * @returns Switched-to session or null if the user has no session for the video
+   */
+  async switchSession(userId: string, videoId: string): Promise<Session | null> {
+    const lock = this.getUserLock(userId);
+
+    return await lock.runExclusive(async () => {
+      const session = this.storage.getSession(userId, videoId);
+
+      if (!session) {
+        return null;
+      }
+
+      session.last_accessed = new Date();
+      this.storage.touchSession(userId, videoId, session.last_accessed);
+      this.storage.setActiveSession(userId, videoId);
+
+      logger.info('Session switched', { userId, videoId });
+
+      return session;
+    });
+  }
+
   /**
    * Retrieves a user's session
    * @param userId - Telegram user ID
@@ -63,7 +106,7 @@ export class ContextManager {
     const lock = this.getUserLock(userId);
     
     return await lock.runExclusive(async () => {
-      const session = this.sessions.get(userId);
+      const session = this.storage.getSession(userId);
       
       if (!session) {
         return null;
@@ -71,6 +114,7 @@ export class ContextManager {
 
       // Update last accessed time
       session.last_accessed = new Date();
+      this.storage.touchSession(userId, session.video_id, session.last_accessed);
       
       return session;
     });
@@ -86,7 +130,7 @@ export class ContextManager {
     const lock = this.getUserLock(userId);
     
     await lock.runExclusive(async () => {
-      const session = this.sessions.get(userId);
+      const session = this.storage.getSession(userId);
       
       if (!session) {
         logger.warning('Attempted to update history for non-existent session', { userId });
@@ -107,20 +151,44 @@ export class ContextManager {
       }
 
       session.last_accessed = new Date();
+      this.storage.saveSession(session);
 
       logger.info('History updated', { userId, historyLength: session.history.length });
     });
   }
 
   /**
-   * Clears a user's session
+   * Sets the preferred response language for a user's session
+   * @param userId - Telegram user ID
+   * @param language - Language code
+   */
+  async setLanguage(userId: string, language: string): Promise<void> {
+    const lock = this.getUserLock(userId);
+
+    await lock.runExclusive(async () => {
+      const session = this.storage.getSession(userId);
+
+      if (!session) {
+        logger.warning('Attempted to set language for non-existent session', { userId });
+        return;
+      }
+
+      session.language = language;
+      this.storage.saveSession(session);
+
+      logger.info('Session language updated', { userId, language });
+    });
+  }
+
+  /**
+   * Clears a user's active session; other videos in the library are kept
    * @param userId - Telegram user ID
    */
   async clearSession(userId: string): Promise<void> {
     const lock = this.getUserLock(userId);
     
     await lock.runExclusive(async () => {
-      const deleted = this.sessions.delete(userId);
+      const deleted = this.storage.deleteSession(userId);
       
       if (deleted) {
         logger.info('Session cleared', { userId });
@@ -128,24 +196,48 @@ export class ContextManager {
     });
   }
 
+  /**
+   * Drops the least recently used inactive sessions beyond the per-user limit
+   * @param userId - Telegram user ID
+   */
+  private evictOldSessions(userId: string): void {
+    const sessions = this.storage.listSessions(userId);
+    if (sessions.length <= config.session.maxVideosPerUser) {
+      return;
+    }
+
+    const activeVideoId = this.storage.getSession(userId)?.video_id;
+    // Listed newest first; reversed so ties evict the older video
+    const evictable = [...sessions]
+      .reverse()
+      .filter((session) => session.video_id !== activeVideoId)
+      .sort((a, b) => a.last_accessed.getTime() - b.last_accessed.getTime());
+
+    for (const session of evictable.slice(0, sessions.length - config.session.maxVideosPerUser)) {
+      this.storage.deleteSession(userId, session.video_id);
+      logger.info('Session evicted from library (LRU)', { userId, videoId: session.video_id });
+    }
+  }
+
   /**
    * Caches a transcript for reuse
    * @param videoId - YouTube video ID
    * @param transcript - Video transcript
    */
-  private cacheTranscript(videoId: string, transcript: Transcript): void {
+  cacheTranscript(videoId: string, transcript: Transcript): void {
     // Check cache size and implement LRU eviction
-    if (this.transcriptCache.size >= config.cache.maxVideos) {
-      // Remove oldest entry (first entry in Map)
-      const firstKey = this.transcriptCache.keys().next().value;
-      if (firstKey) {
-        this.transcriptCache.delete(firstKey);
-        logger.info('Transcript evicted from cache (LRU)', { videoId: firstKey });
+    if (!this.storage.getTranscript(videoId) && this.storage.countTranscripts() >= config.cache.maxVideos) {
+      // Remove oldest entry
+      const oldestId = this.storage.getOldestTranscriptId();
+      if (oldestId) {
+        this.storage.deleteTranscript(oldestId);
+        this.storage.deleteSummaries(oldestId);
+        logger.info('Transcript evicted from cache (LRU)', { videoId: oldestId });
       }
     }
 
-    this.transcriptCache.set(videoId, transcript);
-    logger.info('Transcript cached', { videoId, cacheSize: this.transcriptCache.size });
+    this.storage.saveTranscript(videoId, transcript);
+    logger.info('Transcript cached', { videoId, cacheSize: this.storage.countTranscripts() });
   }
 
   /**
@@ -154,7 +246,7 @@ export class ContextManager {
    * @returns Cached transcript or null
    */
   getCachedTranscript(videoId: string): Transcript | null {
-    const transcript = this.transcriptCache.get(videoId);
+    const transcript = this.storage.getTranscript(videoId);
     
     if (transcript) {
       // Check if transcript is still valid (within TTL)
@@ -163,7 +255,8 @@ export class ContextManager {
       
       if (age > ttl) {
         // Transcript expired, remove from cache
-        this.transcriptCache.delete(videoId);
+        this.storage.deleteTranscript(videoId);
+        this.storage.deleteSummaries(videoId);
         logger.info('Cached transcript expired', { videoId });
         return null;
       }
@@ -175,6 +268,36 @@ export class ContextManager {
     return null;
   }
 
+  /**
+   * Caches a video's summary in one language for reuse across users
+   * The summary is kept as long as the video's transcript, so cache the transcript first
+   * @param videoId - YouTube video ID
+   * @param language - Language code of the summary
+   * @param summary - Brief summary of the video
+   */
+  cacheSummary(videoId: string, language: string, summary: Summary): void {
+    this.storage.saveSummary(videoId, language, summary);
+    logger.info('Summary cached', { videoId, language });
+  }
+
+  /**
+   * Retrieves a cached summary
+   * @param videoId - YouTube video ID
+   * @param language - Language code of the summary
+   * @returns Cached summary or null, also once the video's transcript has left the cache
+   */
+  getCachedSummary(videoId: string, language: string): Summary | null {
+    if (!this.getCachedTranscript(videoId)) {
+      return null;
+    }
+
+    const summary = this.storage.getSummary(videoId, language);
+    if (summary) {
+      logger.info('Summary retrieved from cache', { videoId, language });
+    }
+    return summary;
+  }
+
   /**
    * Gets or creates a mutex lock for a user
    * @param userId - Telegram user ID
@@ -210,24 +333,17 @@ export class ContextManager {
    * Cleans up expired sessions
    */
   private cleanupExpiredSessions(): void {
-    const now = Date.now();
     const ttl = config.session.ttlHours * 60 * 60 * 1000; // Convert hours to ms
-    let cleanedCount = 0;
+    const expiredUserIds = this.storage.deleteSessionsAccessedBefore(new Date(Date.now() - ttl));
 
-    for (const [userId, session] of this.sessions.entries()) {
-      const age = now - session.last_accessed.getTime();
-      
-      if (age > ttl) {
-        this.sessions.delete(userId);
-        this.userLocks.delete(userId);
-        cleanedCount++;
-      }
+    for (const userId of expiredUserIds) {
+      this.userLocks.delete(userId);
     }
 
-    if (cleanedCount > 0) {
+    if (expiredUserIds.length > 0) {
       logger.info('Expired sessions cleaned up', { 
-        cleanedCount, 
-        remainingSessions: this.sessions.size 
+        cleanedCount: expiredUserIds.length, 
+        remainingSessions: this.storage.countSessions() 
       });
     }
   }
@@ -243,13 +359,21 @@ export class ContextManager {
     }
   }
 
+  /**
+   * Stops background work and closes the storage backend
+   */
+  close(): void {
+    this.stopCleanupTask();
+    this.storage.close();
+  }
+
   /**
    * Gets statistics about the context manager
    */
   getStats(): { activeSessions: number; cachedTranscripts: number } {
     return {
-      activeSessions: this.sessions.size,
-      cachedTranscripts: this.transcriptCache.size
+      activeSessions: this.storage.countSessions(),
+      cachedTranscripts: this.storage.countTranscripts()
     };
   }
 }
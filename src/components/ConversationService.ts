@@ -0,0 +1,639 @@
+import { ContextManager } from './ContextManager';
+import { TranscriptFetcher } from './TranscriptFetcher';
+import { Summarizer, SummaryProgress } from './Summarizer';
+import { QAEngine } from './QAEngine';
+import { LanguageProcessor } from './LanguageProcessor';
+import { MessageRouter } from './MessageRouter';
+import { CommandHandler } from './CommandHandler';
+import { QuotaManager, QuotaResult } from './QuotaManager';
+import { logger } from '../utils/logger';
+import { handleError } from '../utils/errorHandler';
+import { routedMessages } from '../utils/metrics';
+import { UsageTracker } from '../utils/usageTracker';
+import { ProgressReporter, StatusMessage } from '../utils/progressReporter';
+import { bold, code, escapeHtml, link } from '../utils/telegramHtml';
+import { extractVideoId } from '../utils/urlParser';
+import { ReplyButton, Summary } from '../models';
+
+export interface InboundMessage {
+  userId: string;
+  text: string;
+}
+
+/**
+ * Where replies to one inbound message go; implemented by each transport
+ * Replies are Telegram HTML; transports without HTML convert them with toPlainText
+ */
+export interface ReplyChannel {
+  /** @param buttons - Rows of buttons shown under the message, where the transport supports them */
+  send(text: string, buttons?: ReplyButton[][]): Promise<void>;
+  /** Sends a message that is edited as a long request progresses */
+  sendStatus(text: string): Promise<StatusMessage>;
+  /** Shows that a reply is being prepared, where the transport supports it */
+  showTyping(): Promise<void>;
+}
+
+/**
+ * Result offered for an inline query; choosing it posts its text to the chat
+ */
+export interface InlineResult {
+  id: string;
+  title: string; // plain text
+  description: string; // plain text
+  text: string; // Telegram HTML
+}
+
+export interface InlineAnswer {
+  results: InlineResult[];
+  /** False while the summary is being generated, so the answer must not be reused */
+  final: boolean;
+}
+
+export interface ConversationDependencies {
+  contextManager: ContextManager;
+  transcriptFetcher: TranscriptFetcher;
+  summarizer: Summarizer;
+  qaEngine: QAEngine;
+  languageProcessor: LanguageProcessor;
+  messageRouter: MessageRouter;
+  commandHandler: CommandHandler;
+  quotaManager: QuotaManager;
+  usageTracker: UsageTracker;
+}
+
+/**
+ * The bot's conversation flow, independent of the chat transport
+ * Takes one inbound message at a time and sends its replies to the given channel
+ */
+export class ConversationService {
+  private contextManager: ContextManager;
+  private transcriptFetcher: TranscriptFetcher;
+  private summarizer: Summarizer;
+  private qaEngine: QAEngine;
+  private languageProcessor: LanguageProcessor;
+  private messageRouter: MessageRouter;
+  private commandHandler: CommandHandler;
+  private quotaManager: QuotaManager;
+  private usageTracker: UsageTracker;
+  // Summaries being generated for inline queries, by "video ID:language"
+  private pendingSummaries: Map<string, Promise<Summary>> = new Map();
+
+  constructor(dependencies: ConversationDependencies) {
+    this.contextManager = dependencies.contextManager;
+    this.transcriptFetcher = dependencies.transcriptFetcher;
+    this.summarizer = dependencies.summarizer;
+    this.qaEngine = dependencies.qaEngine;
+    this.languageProcessor = dependencies.languageProcessor;
+    this.messageRouter = dependencies.messageRouter;
+    this.commandHandler = dependencies.commandHandler;
+    this.quotaManager = dependencies.quotaManager;
+    this.usageTracker = dependencies.usageTracker;
+  }
+
+  /**
+   * Main message handler - routes a message and sends the replies
+   * Errors are reported to the user rather than thrown
+   */
+  async handleMessage(message: InboundMessage, channel: ReplyChannel): Promise<void> {
+    const { userId, text } = message;
+    logger.info('Received message', { userId, messageLength: text.length });
+
+    // AI requests made while handling the message are attributed to its sender
+    await this.usageTracker.runForUser(userId, async () => {
+      try {
+        // Get current session state
+        const session = await this.contextManager.getSession(userId);
+        const isExpired = session ? Date.now() - session.last_accessed.getTime() > 24 * 60 * 60 * 1000 : false;
+        const sessionState = this.messageRouter.getSessionState(!!session, isExpired);
+
+        // Route the message
+        const route = this.messageRouter.routeMessage(userId, text, sessionState);
+        routedMessages.inc({ type: route.type });
+
+        switch (route.type) {
+          case 'command':
+            await this.handleCommand(userId, channel, route.command!, route.message!);
+            break;
+
+          case 'youtube_url':
+            // Counted only once the video is summarized
+            if (await this.withinQuota(channel, this.quotaManager.checkVideo(userId))) {
+              await this.handleYouTubeUrl(userId, channel, route.videoId!);
+            }
+            break;
+
+          case 'question':
+            if (await this.withinQuota(channel, this.quotaManager.tryAskQuestion(userId))) {
+              await this.handleQuestion(userId, channel, route.question!);
+            }
+            break;
+
+          case 'usage_instructions':
+            await channel.send(route.message!);
+            break;
+
+          case 'no_session_error':
+            await channel.send(route.message!);
+            break;
+
+          default:
+            await channel.send('Sorry, I did not understand that. Try /help for usage instructions.');
+        }
+      } catch (error: any) {
+        logger.error('Error handling message', error, { userId });
+        const errorMessage = handleError(error);
+        await channel.send(errorMessage);
+      }
+    });
+  }
+
+  /**
+   * Answers an inline query (e.g. "@bot <YouTube link>" in any chat) with the video's summary
+   * in the user's session language, from the cache or generated on demand. Generating counts
+   * towards the user's video quota; a summary not ready within the wait is answered with a
+   * placeholder and keeps generating, so the same query a bit later gets it from the cache
+   * @param waitMs - How long to wait for a summary that is not cached
+   */
+  async handleInlineQuery(query: InboundMessage, waitMs: number): Promise<InlineAnswer> {
+    const { userId, text } = query;
+    const videoId = extractVideoId(text.trim());
+    if (!videoId) {
+      return { results: [], final: true };
+    }
+
+    logger.info('Handling inline query', { userId, videoId });
+
+    return this.usageTracker.runForUser(userId, async () => {
+      try {
+        const language = (await this.contextManager.getSession(userId))?.language || 'en';
+        const key = `${videoId}:${language}`;
+
+        const cached = this.contextManager.getCachedSummary(videoId, language);
+        if (cached) {
+          return { results: [this.inlineSummary(key, videoId, cached)], final: true };
+        }
+
+        let pending = this.pendingSummaries.get(key);
+        if (!pending) {
+          const quota = this.quotaManager.checkVideo(userId);
+          if (!quota.allowed) {
+            return { results: [this.inlineNotice('quota', '⛔ Over your quota', quota.message!)], final: false };
+          }
+
+          pending = this.summarizeVideo(userId, videoId, language).finally(() => this.pendingSummaries.delete(key));
+          // Failures reach the query waiting for the summary; one that gave up must not crash the process
+          pending.catch(() => undefined);
+          this.pendingSummaries.set(key, pending);
+        }
+
+        const summary = await waitFor(pending, waitMs);
+        if (!summary) {
+          // Choosing the placeholder just shares the video
+          const url = `https://youtu.be/${videoId}`;
+          const notice = this.inlineNotice(
+            'pending',
+            '⏳ Summarizing this video...',
+            'Type the link again in a few seconds to get the summary.',
+            `🎥 ${link(url, url)}`
+          );
+          return { results: [notice], final: false };
+        }
+
+        return { results: [this.inlineSummary(key, videoId, summary)], final: true };
+      } catch (error: any) {
+        logger.error('Error handling inline query', error, { userId, videoId });
+        const errorMessage = handleError(error);
+        return { results: [this.inlineNotice('error', '❌ Could not summarize this video', errorMessage)], final: false };
+      }
+    });
+  }
+
+  /**
+   * Get welcome message for /start command, as Telegram HTML
+   */
+  getWelcomeMessage(): string {
+    return `🎥 ${bold('Welcome to YouTube Summarizer Bot!')}
+
+I can help you understand YouTube videos quickly by providing:
+• Structured summaries with key points
+• Important timestamps
+• Q&A about video content
+• Multi-language support
+
+${bold('How to use:')}
+1️⃣ Send me a YouTube link
+2️⃣ Get an instant summary
+3️⃣ Ask questions about the video, or use the buttons under the summary
+
+${bold('Available commands:')}
+/start - Show this welcome message
+/help - Display detailed help
+/summary - Get summary of current video
+${code('/translate <language>')} - Summary in another language
+/actionpoints - Extract actionable items
+/videos - List your recent videos
+${code('/switch <n>')} - Continue with another video
+${code('/askall <question>')} - Ask across all your videos
+${code('/compare <a> <b>')} - Compare two videos
+/clear - Clear current session
+
+${bold('Supported languages:')}
+English, Hindi, Tamil, Telugu, Kannada, Marathi
+
+Just send me a YouTube link to get started! 🚀`;
+  }
+
+  /**
+   * Tells the user when a request is over their quota
+   * @returns Whether the request may be handled
+   */
+  private async withinQuota(channel: ReplyChannel, quota: QuotaResult): Promise<boolean> {
+    if (!quota.allowed) {
+      await channel.send(quota.message!);
+    }
+    return quota.allowed;
+  }
+
+  /**
+   * Handle bot commands
+   */
+  private async handleCommand(userId: string, channel: ReplyChannel, command: string, fullMessage: string): Promise<void> {
+    logger.info('Handling command', { userId, command });
+
+    try {
+      let response: string;
+      let buttons: ReplyButton[][] | undefined;
+      const args = fullMessage.split(' ').slice(1).join(' ');
+
+      const quota = this.commandQuota(userId, command, args);
+      if (quota && !(await this.withinQuota(channel, quota))) {
+        return;
+      }
+
+      switch (command) {
+        case 'start':
+          response = this.getWelcomeMessage();
+          break;
+
+        case 'help':
+          response = this.commandHandler.handleHelpCommand();
+          break;
+
+        case 'summary':
+          response = await this.commandHandler.handleSummaryCommand(userId, args);
+          buttons = await this.summaryActions(userId);
+          break;
+
+        case 'translate': {
+          const language = this.languageProcessor.findLanguage(args);
+          if (!language) {
+            await channel.send('🌍 Choose a language for the summary:', this.languageChoices());
+            return;
+          }
+          response = await this.commandHandler.handleTranslateCommand(userId, language);
+          buttons = await this.summaryActions(userId);
+          break;
+        }
+
+        case 'actionpoints':
+          response = await this.commandHandler.handleActionPointsCommand(userId);
+          break;
+
+        case 'clear':
+          response = await this.commandHandler.handleClearCommand(userId);
+          break;
+
+        case 'usage':
+          response = this.commandHandler.handleUsageCommand(userId);
+          break;
+
+        case 'videos':
+          response = await this.commandHandler.handleVideosCommand(userId);
+          break;
+
+        case 'switch':
+          response = await this.commandHandler.handleSwitchCommand(userId, args);
+          break;
+
+        case 'compare':
+          // Usage errors are answered without the status
+          response = await this.commandHandler.handleCompareCommand(userId, args, async () => {
+            const links = this.countLinks(args);
+            if (links > 0) {
+              this.quotaManager.addVideo(userId, links);
+            }
+            await channel.send('⏳ Comparing videos... This may take a moment.');
+          });
+          break;
+
+        case 'askall':
+          // Answered like a question, which the handler counts; replies are sent by the handler
+          await this.handleQuestionAcrossVideos(userId, channel, args.trim());
+          return;
+
+        default:
+          response = `Unknown command: /${escapeHtml(command)}\n\nTry /help for available commands.`;
+      }
+
+      await channel.send(response, buttons);
+    } catch (error: any) {
+      logger.error('Error handling command', error, { userId, command });
+      const errorMessage = handleError(error);
+      await channel.send(errorMessage);
+    }
+  }
+
+  /**
+   * Checks the quota of a command that makes AI requests; links passed to /compare count
+   * as videos once both videos are found
+   * @returns Nothing for commands without AI requests, and for /askall, which counts as a question
+   */
+  private commandQuota(userId: string, command: string, args: string): QuotaResult | null {
+    switch (command) {
+      case 'summary':
+      case 'translate':
+      case 'actionpoints':
+        return this.quotaManager.checkTokens(userId);
+
+      case 'compare': {
+        const links = this.countLinks(args);
+        return links > 0 ? this.quotaManager.checkVideo(userId, links) : this.quotaManager.checkTokens(userId);
+      }
+
+      default:
+        return null;
+    }
+  }
+
+  private countLinks(args: string): number {
+    return args.split(/\s+/).filter((token) => extractVideoId(token) !== null).length;
+  }
+
+  /**
+   * Handle YouTube URL - fetch transcript and generate summary
+   * A single status message shows each stage and is replaced by the summary or the error
+   * The video counts towards the quota only when a summary is generated for it
+   */
+  private async handleYouTubeUrl(userId: string, channel: ReplyChannel, videoId: string): Promise<void> {
+    logger.info('Handling YouTube URL', { userId, videoId });
+
+    let progress: ProgressReporter | null = null;
+
+    try {
+      progress = new ProgressReporter(
+        await channel.sendStatus('⏳ Fetching transcript...'),
+        (text, buttons) => channel.send(text, buttons)
+      );
+      progress.report('Fetching transcript');
+
+      // Fetch transcript
+      const transcript = await this.transcriptFetcher.fetchTranscript(videoId);
+      logger.info('Transcript fetched successfully', { userId, videoId, length: transcript.text.length });
+
+      // Detect language preference from previous messages or default to English
+      const session = await this.contextManager.getSession(userId);
+      const language = session?.language || 'en';
+
+      // Create or update session
+      await this.contextManager.createSession(userId, videoId, transcript);
+      logger.info('Session created', { userId, videoId, language });
+
+      // Generate summary, unless the video was already summarized in this language
+      let summary = this.contextManager.getCachedSummary(videoId, language);
+      if (!summary) {
+        this.quotaManager.addVideo(userId);
+        const reporter = progress;
+        summary = await this.summarizer.generateSummary(transcript, language, (stage) =>
+          reporter.report(this.describeProgress(stage))
+        );
+        this.contextManager.cacheSummary(videoId, language, summary);
+      }
+      const formattedSummary = this.summarizer.formatSummary(summary, videoId);
+      logger.info('Summary generated', { userId, videoId });
+
+      // Replace the status with the summary
+      await progress.finish(formattedSummary, await this.summaryActions(userId));
+      await channel.send('💬 You can now ask questions about this video, or send /summary to see the summary again.');
+    } catch (error: any) {
+      logger.error('Error handling YouTube URL', error, { userId, videoId });
+      const errorMessage = handleError(error);
+      if (progress) {
+        await progress.finish(`❌ ${errorMessage}`);
+      } else {
+        await channel.send(errorMessage);
+      }
+    }
+  }
+
+  /**
+   * Summarizes a video without a session, using and filling the transcript and summary caches
+   */
+  private async summarizeVideo(userId: string, videoId: string, language: string): Promise<Summary> {
+    let transcript = this.contextManager.getCachedTranscript(videoId);
+    if (!transcript) {
+      transcript = await this.transcriptFetcher.fetchTranscript(videoId);
+      this.contextManager.cacheTranscript(videoId, transcript);
+    }
+
+    this.quotaManager.addVideo(userId);
+    const summary = await this.summarizer.generateSummary(transcript, language);
+    this.contextManager.cacheSummary(videoId, language, summary);
+    logger.info('Summary generated for inline query', { videoId, language });
+    return summary;
+  }
+
+  private inlineSummary(id: string, videoId: string, summary: Summary): InlineResult {
+    return {
+      id,
+      title: summary.title,
+      description: summary.core_takeaway,
+      text: this.summarizer.formatSummary(summary, videoId),
+    };
+  }
+
+  /**
+   * Result that tells the user why there is no summary; choosing it posts the notice
+   * @param html - Text to post, defaults to the title and description
+   */
+  private inlineNotice(id: string, title: string, description: string, html?: string): InlineResult {
+    return {
+      id,
+      title,
+      description,
+      text: html ?? `${escapeHtml(title)}\n${escapeHtml(description)}`,
+    };
+  }
+
+  /**
+   * Buttons under a summary; each sends a command like a typed message
+   * @returns Nothing when the user has no session to act on
+   */
+  private async summaryActions(userId: string): Promise<ReplyButton[][] | undefined> {
+    if (!(await this.contextManager.getSession(userId))) {
+      return undefined;
+    }
+
+    return [
+      [
+        { text: '📋 Action points', command: '/actionpoints' },
+        { text: '🌍 Translate ▸', command: '/translate' },
+      ],
+      [
+        { text: '📖 Detailed summary', command: '/summary detailed' },
+        { text: '🧹 Clear', command: '/clear' },
+      ],
+    ];
+  }
+
+  /**
+   * Language picker for /translate, three languages per row
+   */
+  private languageChoices(): ReplyButton[][] {
+    const buttons = this.languageProcessor.getSupportedLanguages().map((language) => ({
+      text: this.languageProcessor.getLanguageName(language),
+      command: `/translate ${language}`,
+    }));
+
+    const rows: ReplyButton[][] = [];
+    for (let i = 0; i < buttons.length; i += 3) {
+      rows.push(buttons.slice(i, i + 3));
+    }
+    return rows;
+  }
+
+  private describeProgress(progress: SummaryProgress): string {
+    switch (progress.stage) {
+      case 'summarizing':
+        return 'Summarizing';
+      case 'summarizing_part':
+        return `Summarizing part ${progress.part} of ${progress.total}`;
+      case 'merging':
+        return `Merging ${progress.total} partial summaries`;
+    }
+  }
+
+  /**
+   * Handle user question about current video
+   */
+  private async handleQuestion(userId: string, channel: ReplyChannel, question: string): Promise<void> {
+    logger.info('Handling question', { userId, questionLength: question.length });
+
+    try {
+      // Get session
+      const session = await this.contextManager.getSession(userId);
+      if (!session) {
+        await channel.send('No active session. Please send a YouTube link first.');
+        return;
+      }
+
+      // Detect language in question
+      const detectedLanguage = this.languageProcessor.detectLanguageRequest(question);
+      if (detectedLanguage) {
+        logger.info('Language detected in question', { userId, language: detectedLanguage });
+        await this.contextManager.setLanguage(userId, detectedLanguage);
+        session.language = detectedLanguage;
+      }
+
+      // Send typing indicator
+      await channel.showTyping();
+
+      // Answer question
+      const answer = await this.qaEngine.answerQuestion(
+        question,
+        session.transcript,
+        session.history
+      );
+      logger.info('Answer generated', {
+        userId,
+        answerLength: answer.answer.length,
+        citations: answer.citations.length,
+      });
+
+      // Translate answer if needed
+      let finalAnswer = answer.answer;
+      if (session.language !== 'en') {
+        finalAnswer = await this.languageProcessor.translateAnswer(answer.answer, session.language);
+        logger.info('Answer translated', { userId, language: session.language });
+      }
+
+      // Update conversation history
+      await this.contextManager.updateHistory(userId, question, finalAnswer);
+
+      // Send answer with links to the cited parts of the video
+      await channel.send(this.qaEngine.formatAnswer({ ...answer, answer: finalAnswer }, session.video_id));
+    } catch (error: any) {
+      logger.error('Error handling question', error, { userId });
+      const errorMessage = handleError(error);
+      await channel.send(errorMessage);
+    }
+  }
+
+  /**
+   * Handle /askall - answer one question across all videos in the user's library
+   */
+  private async handleQuestionAcrossVideos(userId: string, channel: ReplyChannel, question: string): Promise<void> {
+    logger.info('Handling question across videos', { userId, questionLength: question.length });
+
+    try {
+      if (!question) {
+        await channel.send('Please add a question, e.g. /askall what do these talks say about caching?');
+        return;
+      }
+
+      const sessions = await this.contextManager.listSessions(userId);
+      if (sessions.length === 0) {
+        await channel.send('No videos yet. Please send a YouTube link first.');
+        return;
+      }
+
+      if (!(await this.withinQuota(channel, this.quotaManager.tryAskQuestion(userId)))) {
+        return;
+      }
+
+      // Prefer the shared transcript cache, which holds the freshest copy
+      const transcripts = sessions.map(
+        (session) => this.contextManager.getCachedTranscript(session.video_id) || session.transcript
+      );
+      const language = (await this.contextManager.getSession(userId))?.language || 'en';
+
+      // Send typing indicator
+      await channel.showTyping();
+
+      const answer = await this.qaEngine.answerAcrossVideos(question, transcripts);
+      logger.info('Answer generated across videos', {
+        userId,
+        videos: transcripts.length,
+        citations: answer.citations.length,
+      });
+
+      // Translate answer if needed
+      let finalAnswer = answer.answer;
+      if (language !== 'en') {
+        finalAnswer = await this.languageProcessor.translateAnswer(answer.answer, language);
+        logger.info('Answer translated', { userId, language });
+      }
+
+      await channel.send(this.qaEngine.formatCrossVideoAnswer({ ...answer, answer: finalAnswer }, transcripts));
+    } catch (error: any) {
+      logger.error('Error handling question across videos', error, { userId });
+      const errorMessage = handleError(error);
+      await channel.send(errorMessage);
+    }
+  }
+}
+
+/**
+ * Resolves with the promise's value, or with null when it takes longer than the wait
+ */
+async function waitFor<T>(promise: Promise<T>, ms: number): Promise<T | null> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<null>((resolve) => {
+    timer = setTimeout(() => resolve(null), ms);
+  });
+
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -4,8 +4,6 @@ import { config } from '../config';
 import { getAIProvider, AIProvider } from '../utils/aiProvider';
 
 export class LanguageProcessor {
-  private aiProvider: AIProvider;
-
   // Language detection patterns
   private languagePatterns: Record<string, RegExp[]> = {
     hi: [
@@ -49,9 +47,10 @@ export class LanguageProcessor {
     mr: 'Marathi',
   };
 
-  constructor() {
-    this.aiProvider = getAIProvider();
-  }
+  /**
+   * @param aiProvider - Provider for translations
+   */
+  constructor(private aiProvider: AIProvider = getAIProvider()) {}
 
   detectLanguageRequest(message: string): string | null {
     logger.info('Detecting language request', { message: message.substring(0, 50) });
@@ -137,7 +136,7 @@ ${text}
 
 Provide only the translation in JSON format.`;
 
-    const response = await this.aiProvider.generateCompletion(systemPrompt, userPrompt, 0.3);
+    const response = await this.aiProvider.generateCompletion(systemPrompt, userPrompt, 0.3, { task: 'translation' });
     
     // Parse response
     let translated: string;
@@ -152,6 +151,18 @@ Provide only the translation in JSON format.`;
     return translated.trim() || text;
   }
 
+  /**
+   * Finds a supported language by code or English name, e.g. "hi" or "Hindi"
+   * @returns Language code or null when the language is not supported
+   */
+  findLanguage(text: string): string | null {
+    const wanted = text.trim().toLowerCase();
+    const code = Object.keys(this.languageNames).find(
+      (candidate) => candidate === wanted || this.languageNames[candidate].toLowerCase() === wanted
+    );
+    return code || null;
+  }
+
   getSupportedLanguages(): string[] {
     return Object.keys(this.languageNames);
   }
@@ -1,6 +1,7 @@
 import { SessionState } from '../models';
 import { extractVideoId, isYouTubeUrl } from '../utils/urlParser';
 import { logger } from '../utils/logger';
+import { code } from '../utils/telegramHtml';
 
 export interface RouteResult {
   type: 'youtube_url' | 'question' | 'command' | 'usage_instructions' | 'no_session_error';
@@ -90,6 +91,10 @@ Here's how to use me:
 Commands:
 /help - Show this help message
 /summary - Get summary of current video
+/videos - List your recent videos
+${code('/switch <n>')} - Continue with another video
+${code('/askall <question>')} - Ask across all your videos
+${code('/compare <a> <b>')} - Compare two videos
 /clear - Clear current session
 
 Example:
@@ -1,74 +1,163 @@
-import { Transcript, QA } from '../models';
+import { Transcript, TranscriptSegment, QA, Answer, Citation } from '../models';
 import { logger } from '../utils/logger';
 import { config } from '../config';
 import { getAIProvider, AIProvider } from '../utils/aiProvider';
+import { formatTimestamp } from '../utils/timeFormat';
+import { buildTimestampUrl } from '../utils/urlParser';
+import { bold, escapeHtml, link } from '../utils/telegramHtml';
+import { BM25Index, SearchResult, tokenize } from '../utils/bm25';
+import { Embedder, getEmbedder } from '../utils/embeddings';
+import { VectorIndex, reciprocalRankFusion } from '../utils/vectorIndex';
 
 interface Chunk {
   text: string;
   startIndex: number;
   endIndex: number;
+  startTime?: number; // seconds, when the transcript has segment timing
+  endTime?: number; // seconds
 }
 
+interface VideoChunk {
+  transcript: Transcript;
+  chunk: Chunk;
+}
+
+export type RetrievalMode = 'lexical' | 'semantic' | 'hybrid';
+
+interface IndexedTranscript {
+  fetchedAt: number;
+  chunks: Chunk[];
+  index: BM25Index;
+  vectors?: Promise<VectorIndex>; // built on first semantic query
+}
+
+const NOT_COVERED_ANSWER = 'This topic is not covered in the video.';
+const NOT_COVERED_ACROSS_VIDEOS_ANSWER = 'This topic is not covered in your videos.';
+
 export class QAEngine {
-  private aiProvider: AIProvider;
+  private indexCache: Map<string, IndexedTranscript>;
+  private embedder: Embedder | null;
 
-  constructor() {
-    this.aiProvider = getAIProvider();
+  /**
+   * @param aiProvider - Provider for completions
+   * @param retrievalMode - How chunks are ranked: BM25, embeddings, or both fused
+   * @param embedder - Embedder for semantic and hybrid modes; defaults to the configured one
+   */
+  constructor(
+    private aiProvider: AIProvider = getAIProvider(),
+    private retrievalMode: RetrievalMode = config.qa.retrieval,
+    embedder?: Embedder
+  ) {
+    this.indexCache = new Map();
+    this.embedder = retrievalMode === 'lexical' ? null : embedder || getEmbedder();
   }
 
   async answerQuestion(
     question: string,
     transcript: Transcript,
     history: QA[] = []
-  ): Promise<string> {
+  ): Promise<Answer> {
     logger.info('Answering question', { videoId: transcript.video_id, question });
 
     try {
-      // Chunk the transcript
-      const chunks = this.chunkTranscript(transcript.text);
+      // Chunk and index the transcript (cached per video)
+      const indexed = this.getIndexedTranscript(transcript);
       
       // Find relevant chunks
-      const relevantChunks = this.findRelevantChunks(question, chunks);
+      const relevantChunks = await this.retrieveChunks(question, indexed);
       
       if (relevantChunks.length === 0) {
         logger.info('No relevant chunks found', { videoId: transcript.video_id });
-        return 'This topic is not covered in the video.';
+        return { answer: NOT_COVERED_ANSWER, citations: [] };
       }
 
-      // Build context from relevant chunks
-      const context = relevantChunks.map((chunk) => chunk.text).join('\n\n');
+      // Build numbered context from relevant chunks so the model can cite them
+      const context = relevantChunks
+        .map((chunk, index) => `[${index + 1}]${this.formatChunkRange(chunk)}\n${chunk.text}`)
+        .join('\n\n');
       
       // Build prompt
       const userPrompt = this.buildPrompt(question, context, history);
       const systemPrompt = 'You are a helpful assistant that answers questions based on video transcripts. Only use information from the provided context.';
       
       // Get answer from AI provider
-      const response = await this.aiProvider.generateCompletion(systemPrompt, userPrompt, 0.3);
+      const response = await this.aiProvider.generateCompletion(systemPrompt, userPrompt, 0.3, { task: 'qa' });
       
-      // Parse response - it should be JSON with an "answer" field
-      let answer: string;
-      try {
-        const parsed = JSON.parse(response.content);
-        answer = parsed.answer || response.content;
-      } catch {
-        // If not JSON, use the content directly
-        answer = response.content;
-      }
-      
-      if (!answer || answer.trim() === '') {
-        answer = 'This topic is not covered in the video.';
-      }
+      const { answer, sources } = this.parseResponse(response.content, NOT_COVERED_ANSWER);
+
+      const citations = answer === NOT_COVERED_ANSWER
+        ? []
+        : this.buildCitations(relevantChunks, sources);
       
-      logger.info('Question answered', { videoId: transcript.video_id });
-      return answer;
+      logger.info('Question answered', { videoId: transcript.video_id, citations: citations.length });
+      return { answer, citations };
     } catch (error) {
       logger.error('Failed to answer question', error as Error, { videoId: transcript.video_id });
       throw error;
     }
   }
 
-  chunkTranscript(text: string): Chunk[] {
-    const words = text.split(/\s+/);
+  /**
+   * Answers a question across several videos, attributing each claim to a video and time
+   * Every video contributes its best chunks; rankings are merged by rank because
+   * BM25 scores of different transcripts are not comparable
+   * @param question - User question
+   * @param transcripts - Transcripts of the videos to search
+   * @returns Answer with inline [n] markers that refer to the numbered citations
+   */
+  async answerAcrossVideos(question: string, transcripts: Transcript[]): Promise<Answer> {
+    logger.info('Answering question across videos', { videos: transcripts.length, question });
+
+    try {
+      const candidates: VideoChunk[] = [];
+      const rankings: SearchResult[][] = [];
+
+      for (const transcript of transcripts) {
+        const chunks = await this.retrieveChunks(question, this.getIndexedTranscript(transcript));
+        rankings.push(chunks.map((chunk, rank) => ({ index: candidates.length + rank, score: chunks.length - rank })));
+        candidates.push(...chunks.map((chunk) => ({ transcript, chunk })));
+      }
+
+      const relevant = reciprocalRankFusion(rankings)
+        .slice(0, config.qa.maxCrossVideoChunks)
+        .map((result) => candidates[result.index]);
+
+      if (relevant.length === 0) {
+        logger.info('No relevant chunks found in any video', { videos: transcripts.length });
+        return { answer: NOT_COVERED_ACROSS_VIDEOS_ANSWER, citations: [] };
+      }
+
+      const context = relevant
+        .map(({ transcript, chunk }, index) =>
+          `[${index + 1}] "${transcript.title}"${this.formatChunkRange(chunk)}\n${chunk.text}`)
+        .join('\n\n');
+
+      const systemPrompt = 'You are a helpful assistant that answers questions based on transcripts of several videos. Only use information from the provided context.';
+      const response = await this.aiProvider.generateCompletion(
+        systemPrompt,
+        this.buildCrossVideoPrompt(question, context),
+        0.3,
+        { task: 'qa' }
+      );
+
+      const { answer, sources } = this.parseResponse(response.content, NOT_COVERED_ACROSS_VIDEOS_ANSWER);
+      if (answer === NOT_COVERED_ACROSS_VIDEOS_ANSWER) {
+        return { answer, citations: [] };
+      }
+
+      const result = this.attributeSources(answer, relevant, sources);
+      logger.info('Question answered across videos', { videos: transcripts.length, citations: result.citations.length });
+      return result;
+    } catch (error) {
+      logger.error('Failed to answer question across videos', error as Error, { videos: transcripts.length });
+      throw error;
+    }
+  }
+
+  chunkTranscript(text: string, segments: TranscriptSegment[] = []): Chunk[] {
+    // With timing, words come from the segments so each keeps its segment's time
+    const wordTimes = this.buildWordTimes(segments);
+    const words = wordTimes ? wordTimes.map((word) => word.text) : text.trim().split(/\s+/);
     const chunkSize = config.qa.chunkSize;
     const overlap = config.qa.chunkOverlap;
     const chunks: Chunk[] = [];
@@ -83,6 +172,10 @@ export class QAEngine {
         text: chunkText,
         startIndex,
         endIndex,
+        ...(wordTimes && {
+          startTime: wordTimes[startIndex].start,
+          endTime: wordTimes[endIndex - 1].end,
+        }),
       });
 
       // Move forward by (chunkSize - overlap) to create overlap
@@ -104,71 +197,269 @@ export class QAEngine {
     return chunks;
   }
 
-  findRelevantChunks(question: string, chunks: Chunk[]): Chunk[] {
-    // Simple keyword-based relevance scoring using TF-IDF-like approach
-    const questionWords = this.extractKeywords(question.toLowerCase());
-    
-    if (questionWords.length === 0) {
+  /**
+   * Formats an answer with its citations as clickable video links
+   * @param answer - Answer returned by answerQuestion
+   * @param videoId - YouTube video ID the answer refers to
+   * @returns Message text ready to send, as Telegram HTML
+   */
+  formatAnswer(answer: Answer, videoId: string): string {
+    if (answer.citations.length === 0) {
+      return escapeHtml(answer.answer);
+    }
+
+    const sources = answer.citations
+      .map((citation) => {
+        const range = `${formatTimestamp(citation.start_time)} - ${formatTimestamp(citation.end_time)}`;
+        return `• ${link(buildTimestampUrl(videoId, citation.start_time), range)}`;
+      })
+      .join('\n');
+
+    return `${escapeHtml(answer.answer)}\n\n${bold('📍 Sources:')}\n${sources}`;
+  }
+
+  /**
+   * Formats a cross-video answer with numbered sources naming their videos
+   * @param answer - Answer returned by answerAcrossVideos
+   * @param transcripts - Transcripts the answer was drawn from, for video titles
+   * @returns Message text ready to send, as Telegram HTML
+   */
+  formatCrossVideoAnswer(answer: Answer, transcripts: Transcript[]): string {
+    if (answer.citations.length === 0) {
+      return escapeHtml(answer.answer);
+    }
+
+    const titles = new Map(transcripts.map((transcript) => [transcript.video_id, transcript.title]));
+    const sources = answer.citations
+      .map((citation, index) => {
+        const videoId = citation.video_id!;
+        const range = `${formatTimestamp(citation.start_time)} - ${formatTimestamp(citation.end_time)}`;
+        return `[${index + 1}] ${escapeHtml(titles.get(videoId) || videoId)}\n    ${link(buildTimestampUrl(videoId, citation.start_time), range)}`;
+      })
+      .join('\n');
+
+    return `${escapeHtml(answer.answer)}\n\n${bold('📍 Sources:')}\n${sources}`;
+  }
+
+  /**
+   * Parses the model's JSON reply with "answer" and "sources" fields
+   * Plain text replies are used as the answer without sources
+   */
+  private parseResponse(content: string, notCoveredAnswer: string): { answer: string; sources: unknown } {
+    let answer: string;
+    let sources: unknown;
+    try {
+      const parsed = JSON.parse(content);
+      answer = parsed.answer || content;
+      sources = parsed.sources;
+    } catch {
+      // If not JSON, use the content directly
+      answer = content;
+    }
+
+    if (!answer || answer.trim() === '') {
+      answer = notCoveredAnswer;
+    }
+
+    return { answer, sources };
+  }
+
+  /**
+   * Turns the passages cited in a cross-video answer into citations and
+   * renumbers the inline [n] markers to match them
+   * Markers of passages without timing are dropped
+   */
+  private attributeSources(answer: string, passages: VideoChunk[], sources: unknown): Answer {
+    const cited = Array.isArray(sources)
+      ? passages.map((_, index) => index + 1).filter((source) => sources.includes(source))
+      : [];
+
+    const citations: Citation[] = [];
+    const positions = new Map<number, number>(); // passage number -> citation number
+
+    for (const source of cited.length > 0 ? cited : passages.map((_, index) => index + 1)) {
+      const { transcript, chunk } = passages[source - 1];
+      if (chunk.startTime === undefined || chunk.endTime === undefined) {
+        continue;
+      }
+
+      citations.push({ start_time: chunk.startTime, end_time: chunk.endTime, video_id: transcript.video_id });
+      positions.set(source, citations.length);
+    }
+
+    const renumbered = answer
+      .replace(/\s*\[(\d+(?:\s*,\s*\d+)*)\]/g, (_marker, numbers: string) => {
+        const mapped = numbers
+          .split(',')
+          .map((number) => positions.get(Number(number.trim())))
+          .filter((position): position is number => position !== undefined);
+        return mapped.length > 0 ? ` [${mapped.join(', ')}]` : '';
+      })
+      .trim();
+
+    return { answer: renumbered, citations };
+  }
+
+  /**
+   * Splits the segments into words, each with the timing of its segment
+   * Returns null when there are no timed words
+   */
+  private buildWordTimes(segments: TranscriptSegment[]): { text: string; start: number; end: number }[] | null {
+    const wordTimes: { text: string; start: number; end: number }[] = [];
+    for (const segment of segments) {
+      const segmentWords = segment.text.split(/\s+/).filter((word) => word.length > 0);
+      for (const word of segmentWords) {
+        wordTimes.push({ text: word, start: segment.offset, end: segment.offset + segment.duration });
+      }
+    }
+
+    return wordTimes.length > 0 ? wordTimes : null;
+  }
+
+  /**
+   * Turns the chunks the model cited into timed citations
+   * Falls back to all context chunks when the model names no valid sources
+   */
+  private buildCitations(chunks: Chunk[], sources: unknown): Citation[] {
+    const cited = Array.isArray(sources)
+      ? chunks.filter((_, index) => sources.includes(index + 1))
+      : [];
+
+    return (cited.length > 0 ? cited : chunks)
+      .filter((chunk) => chunk.startTime !== undefined && chunk.endTime !== undefined)
+      .sort((a, b) => a.startTime! - b.startTime!)
+      .map((chunk) => ({ start_time: chunk.startTime!, end_time: chunk.endTime! }));
+  }
+
+  private formatChunkRange(chunk: Chunk): string {
+    if (chunk.startTime === undefined || chunk.endTime === undefined) {
+      return '';
+    }
+
+    return ` (${formatTimestamp(chunk.startTime)} - ${formatTimestamp(chunk.endTime)})`;
+  }
+
+  /**
+   * Ranks chunks against the question with BM25
+   * @param question - User question
+   * @param chunks - Transcript chunks
+   * @param index - Prebuilt index over the chunks; built on the fly when omitted
+   * @returns Up to maxRelevantChunks chunks, most relevant first
+   */
+  findRelevantChunks(question: string, chunks: Chunk[], index?: BM25Index): Chunk[] {
+    if (tokenize(question).length === 0) {
       // If no keywords, return first few chunks
       return chunks.slice(0, config.qa.maxRelevantChunks);
     }
 
-    // Score each chunk
-    const scoredChunks = chunks.map((chunk) => {
-      const chunkText = chunk.text.toLowerCase();
-      let score = 0;
-
-      questionWords.forEach((word) => {
-        // Count occurrences of each keyword
-        const regex = new RegExp(`\\b${this.escapeRegex(word)}\\b`, 'g');
-        const matches = chunkText.match(regex);
-        if (matches) {
-          score += matches.length;
-        }
-      });
+    const bm25 = index || new BM25Index(chunks.map((chunk) => chunk.text), config.qa.bm25);
+    const relevantChunks = bm25
+      .search(question, config.qa.maxRelevantChunks)
+      .map((result) => chunks[result.index]);
 
-      return { chunk, score };
+    logger.info('Relevant chunks found', {
+      totalChunks: chunks.length,
+      relevantChunks: relevantChunks.length,
     });
 
-    // Sort by score descending
-    scoredChunks.sort((a, b) => b.score - a.score);
+    return relevantChunks;
+  }
+
+  /**
+   * Retrieves the chunks most relevant to the question using the configured mode
+   * Hybrid mode fuses the BM25 and embedding rankings by rank
+   */
+  private async retrieveChunks(question: string, indexed: IndexedTranscript): Promise<Chunk[]> {
+    if (!this.embedder || this.retrievalMode === 'lexical') {
+      return this.findRelevantChunks(question, indexed.chunks, indexed.index);
+    }
+
+    const vectorIndex = await this.getVectorIndex(indexed);
+    const queryVector = await this.embedder.embedQuery(question);
+    const semantic = vectorIndex.search(queryVector, indexed.chunks.length, config.embedding.minSimilarity);
 
-    // Return top N chunks with score > 0
-    const relevantChunks = scoredChunks
-      .filter((sc) => sc.score > 0)
+    const ranking = this.retrievalMode === 'semantic'
+      ? semantic
+      : reciprocalRankFusion([indexed.index.search(question), semantic]);
+
+    const relevantChunks = ranking
       .slice(0, config.qa.maxRelevantChunks)
-      .map((sc) => sc.chunk);
+      .map((result) => indexed.chunks[result.index]);
 
     logger.info('Relevant chunks found', {
-      totalChunks: chunks.length,
+      mode: this.retrievalMode,
+      totalChunks: indexed.chunks.length,
       relevantChunks: relevantChunks.length,
     });
 
     return relevantChunks;
   }
 
-  private extractKeywords(text: string): string[] {
-    // Remove common stop words and extract meaningful keywords
-    const stopWords = new Set([
-      'a', 'an', 'the', 'is', 'are', 'was', 'were', 'be', 'been', 'being',
-      'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would', 'could',
-      'should', 'may', 'might', 'can', 'in', 'on', 'at', 'to', 'for', 'of',
-      'with', 'by', 'from', 'about', 'what', 'when', 'where', 'who', 'how',
-      'why', 'which', 'this', 'that', 'these', 'those', 'i', 'you', 'he',
-      'she', 'it', 'we', 'they', 'me', 'him', 'her', 'us', 'them',
-    ]);
+  /**
+   * Embeds the chunks of a transcript once and keeps the index with its BM25 index
+   */
+  private getVectorIndex(indexed: IndexedTranscript): Promise<VectorIndex> {
+    if (!indexed.vectors) {
+      indexed.vectors = this.embedder!
+        .embedDocuments(indexed.chunks.map((chunk) => chunk.text))
+        .then((vectors) => new VectorIndex(vectors));
+
+      // Drop a failed build so the next question retries it
+      indexed.vectors.catch(() => {
+        indexed.vectors = undefined;
+      });
+    }
+
+    return indexed.vectors;
+  }
+
+  /**
+   * Returns the chunks and BM25 index for a transcript, building them once per video
+   */
+  private getIndexedTranscript(transcript: Transcript): IndexedTranscript {
+    const fetchedAt = new Date(transcript.fetched_at).getTime();
+    const cached = this.indexCache.get(transcript.video_id);
+
+    if (cached && cached.fetchedAt === fetchedAt) {
+      return cached;
+    }
+
+    const chunks = this.chunkTranscript(transcript.text, transcript.segments);
+    const indexed: IndexedTranscript = {
+      fetchedAt,
+      chunks,
+      index: new BM25Index(chunks.map((chunk) => chunk.text), config.qa.bm25),
+    };
+
+    // Evict the oldest entry once the cache is full
+    if (!cached && this.indexCache.size >= config.cache.maxVideos) {
+      const firstKey = this.indexCache.keys().next().value;
+      if (firstKey) {
+        this.indexCache.delete(firstKey);
+      }
+    }
 
-    const words = text
-      .toLowerCase()
-      .replace(/[^\w\s]/g, ' ')
-      .split(/\s+/)
-      .filter((word) => word.length > 2 && !stopWords.has(word));
+    this.indexCache.set(transcript.video_id, indexed);
+    logger.info('Transcript indexed for Q&A', {
+      videoId: transcript.video_id,
+      numChunks: chunks.length,
+    });
 
-    return [...new Set(words)]; // Remove duplicates
+    return indexed;
   }
 
-  private escapeRegex(str: string): string {
-    return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  private buildCrossVideoPrompt(question: string, context: string): string {
+    let prompt = 'Context from several video transcripts, each passage labelled with its video title:\n';
+    prompt += context + '\n\n';
+    prompt += `User question: ${question}\n\n`;
+    prompt += 'Answer the question based ONLY on the provided context. ';
+    prompt += 'Point out where the videos agree or differ. ';
+    prompt += 'After every claim, add the number of the passage it comes from in square brackets, e.g. [2]. ';
+    prompt += `If the information is not in the context, respond with "${NOT_COVERED_ACROSS_VIDEOS_ANSWER}"\n\n`;
+    prompt += 'List the numbers of all passages your answer is based on in "sources".\n\n';
+    prompt += 'Respond with JSON format: {"answer": "your answer here [1]", "sources": [1]}';
+
+    return prompt;
   }
 
   private buildPrompt(question: string, context: string, history: QA[]): string {
@@ -186,8 +477,9 @@ export class QAEngine {
 
     prompt += `User question: ${question}\n\n`;
     prompt += 'Answer the question based ONLY on the provided context. ';
-    prompt += 'If the information is not in the context, respond with "This topic is not covered in the video."\n\n';
-    prompt += 'Respond with JSON format: {"answer": "your answer here"}';
+    prompt += `If the information is not in the context, respond with "${NOT_COVERED_ANSWER}"\n\n`;
+    prompt += 'List the numbers of the context passages your answer is based on in "sources".\n\n';
+    prompt += 'Respond with JSON format: {"answer": "your answer here", "sources": [1]}';
 
     return prompt;
   }
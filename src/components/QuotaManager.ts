@@ -0,0 +1,170 @@
+import { QuotaCounter } from '../models';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { StorageAdapter, getStorage } from '../storage';
+
+export type Quota = 'videos' | 'questions' | 'tokens';
+
+export interface QuotaLimits {
+  videosPerDay: number; // 0 disables a limit
+  questionsPerHour: number;
+  tokensPerDay: number;
+}
+
+export interface QuotaResult {
+  allowed: boolean;
+  message?: string; // why the request was refused and when to try again
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Enforces per-user limits on videos, questions and AI tokens
+ * Each quota counts uses in a window that starts with the first use after the previous window ended;
+ * counters live in the session store so they survive restarts
+ */
+export class QuotaManager {
+  /**
+   * @param storage - Store for the counters; share the ContextManager's one
+   * @param limits - Limits per user
+   * @param exemptUserIds - Users without limits, e.g. admins
+   * @param now - Clock, replaceable in tests
+   */
+  constructor(
+    private storage: StorageAdapter = getStorage(),
+    private limits: QuotaLimits = config.quota,
+    private exemptUserIds: string[] = config.admin.userIds,
+    private now: () => number = Date.now
+  ) {}
+
+  /**
+   * Counts new videos for the user if the video and token quotas allow all of them
+   * @param count - Videos in the request, e.g. two links passed to /compare
+   */
+  tryAddVideo(userId: string, count: number = 1): QuotaResult {
+    const quota = this.checkVideo(userId, count);
+    if (quota.allowed) {
+      this.addVideo(userId, count);
+    }
+    return quota;
+  }
+
+  /**
+   * Checks whether the video and token quotas allow new videos, without counting them
+   * Count them with addVideo once they are actually summarized
+   * @param count - Videos in the request, e.g. two links passed to /compare
+   */
+  checkVideo(userId: string, count: number = 1): QuotaResult {
+    return this.check(userId, 'videos', this.limits.videosPerDay, DAY_MS, count);
+  }
+
+  /**
+   * Counts videos checked earlier with checkVideo
+   */
+  addVideo(userId: string, count: number = 1): void {
+    this.add(userId, 'videos', this.limits.videosPerDay, DAY_MS, count);
+  }
+
+  /**
+   * Counts a question for the user if the question and token quotas allow it
+   */
+  tryAskQuestion(userId: string): QuotaResult {
+    const quota = this.check(userId, 'questions', this.limits.questionsPerHour, HOUR_MS, 1);
+    if (quota.allowed) {
+      this.add(userId, 'questions', this.limits.questionsPerHour, HOUR_MS, 1);
+    }
+    return quota;
+  }
+
+  /**
+   * Checks the token quota for AI requests that count no video or question, e.g. /summary
+   */
+  checkTokens(userId: string): QuotaResult {
+    if (this.isExempt(userId) || this.limits.tokensPerDay <= 0) {
+      return { allowed: true };
+    }
+
+    const tokens = this.currentCounter(userId, 'tokens', DAY_MS);
+    if (tokens.count >= this.limits.tokensPerDay) {
+      return this.refuse(userId, 'tokens', tokens.window_start, DAY_MS, "You've used up today's AI allowance.");
+    }
+    return { allowed: true };
+  }
+
+  /**
+   * Adds tokens used by an AI request to the user's daily total
+   * The request that crosses the limit still completes; later ones are refused
+   */
+  addTokens(userId: string, tokens: number): void {
+    if (this.isExempt(userId) || this.limits.tokensPerDay <= 0) {
+      return;
+    }
+
+    const counter = this.currentCounter(userId, 'tokens', DAY_MS);
+    this.storage.saveQuotaCounter(userId, 'tokens', { ...counter, count: counter.count + tokens });
+  }
+
+  private check(userId: string, quota: Quota, limit: number, windowMs: number, count: number): QuotaResult {
+    const tokens = this.checkTokens(userId);
+    if (!tokens.allowed || this.isExempt(userId) || limit <= 0) {
+      return tokens;
+    }
+
+    const counter = this.currentCounter(userId, quota, windowMs);
+    if (counter.count + count > limit) {
+      return this.refuse(userId, quota, counter.window_start, windowMs, quota === 'videos'
+        ? `You've reached the limit of ${limit} videos per day.`
+        : `You've reached the limit of ${limit} questions per hour.`);
+    }
+    return { allowed: true };
+  }
+
+  private add(userId: string, quota: Quota, limit: number, windowMs: number, count: number): void {
+    if (this.isExempt(userId) || limit <= 0) {
+      return;
+    }
+
+    const counter = this.currentCounter(userId, quota, windowMs);
+    this.storage.saveQuotaCounter(userId, quota, { ...counter, count: counter.count + count });
+  }
+
+  /**
+   * Counter of the running window; a new window starts once the last one has ended
+   */
+  private currentCounter(userId: string, quota: Quota, windowMs: number): QuotaCounter {
+    const counter = this.storage.getQuotaCounter(userId, quota);
+    if (!counter || this.now() - counter.window_start.getTime() >= windowMs) {
+      return { count: 0, window_start: new Date(this.now()) };
+    }
+    return counter;
+  }
+
+  private refuse(userId: string, quota: Quota, windowStart: Date, windowMs: number, reason: string): QuotaResult {
+    const retryAfterMs = windowStart.getTime() + windowMs - this.now();
+    logger.warning('Quota exceeded', { userId, quota, retryAfterMs });
+
+    return {
+      allowed: false,
+      message: `⏳ ${reason} Please try again ${this.formatWait(retryAfterMs)}.`,
+    };
+  }
+
+  private formatWait(ms: number): string {
+    const minutes = Math.ceil(ms / 60000);
+    if (minutes <= 1) {
+      return 'in a minute';
+    }
+    if (minutes < 60) {
+      return `in ${minutes} min`;
+    }
+
+    const hours = Math.floor(minutes / 60);
+    const rest = minutes % 60;
+    return rest > 0 ? `in ${hours} h ${rest} min` : `in ${hours} h`;
+  }
+
+  private isExempt(userId: string): boolean {
+    return this.exemptUserIds.includes(userId);
+  }
+}
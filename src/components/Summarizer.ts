@@ -1,7 +1,11 @@
-import { Transcript, Summary } from '../models';
+import { Transcript, Summary, Timestamp, Comparison, ComparisonPoint } from '../models';
 import { logger } from '../utils/logger';
 import { config } from '../config';
-import { getAIProvider, AIProvider } from '../utils/aiProvider';
+import { getAIProvider, AIProvider, AITask } from '../utils/aiProvider';
+import { formatTimestamp, parseTimestamp } from '../utils/timeFormat';
+import { buildTimestampUrl } from '../utils/urlParser';
+import { bold, escapeHtml, link } from '../utils/telegramHtml';
+import { TranscriptFetcher } from './TranscriptFetcher';
 
 export class SummaryGenerationError extends Error {
   constructor(message: string, public code: string) {
@@ -10,16 +14,66 @@ export class SummaryGenerationError extends Error {
   }
 }
 
+interface SummaryDraft {
+  key_points: string[];
+  timestamps: Timestamp[];
+  core_takeaway: string;
+}
+
+/**
+ * Stage reached while summarizing, reported for progress updates
+ */
+export type SummaryProgress =
+  | { stage: 'summarizing' }
+  | { stage: 'summarizing_part'; part: number; total: number }
+  | { stage: 'merging'; total: number };
+
+type ProgressListener = (progress: SummaryProgress) => void;
+
+/**
+ * How much a summary covers: the usual five points, or a longer one on request
+ */
+export type SummaryDetail = 'brief' | 'detailed';
+
+const SUMMARY_SHAPES: Record<SummaryDetail, { keyPoints: string; timestamps: string; takeaway: string }> = {
+  brief: {
+    keyPoints: 'Exactly 5 key points (each max 100 characters)',
+    timestamps: 'At least 3',
+    takeaway: 'One core takeaway (single sentence)',
+  },
+  detailed: {
+    keyPoints: '8 to 10 key points (each max 200 characters) in the order they come up',
+    timestamps: 'At least 6',
+    takeaway: 'A core takeaway of 2-3 sentences',
+  },
+};
+
+const SYSTEM_PROMPT = 'You are a helpful assistant that creates structured summaries of video transcripts. Always respond with valid JSON.';
+const COMPARISON_SYSTEM_PROMPT = 'You are a helpful assistant that compares videos based on their summaries. Always respond with valid JSON.';
+
 export class Summarizer {
-  private aiProvider: AIProvider;
   private readonly LONG_VIDEO_THRESHOLD = 10800; // 3 hours in seconds
 
-  constructor() {
-    this.aiProvider = getAIProvider();
-  }
+  /**
+   * @param aiProvider - Provider for completions
+   * @param transcriptFetcher - Used to split long transcripts into parts
+   */
+  constructor(
+    private aiProvider: AIProvider = getAIProvider(),
+    private transcriptFetcher: TranscriptFetcher = new TranscriptFetcher()
+  ) {}
 
-  async generateSummary(transcript: Transcript, language: string = 'en'): Promise<Summary> {
-    logger.info('Generating summary', { videoId: transcript.video_id, language });
+  /**
+   * @param onProgress - Called as summarizing moves through its stages
+   * @param detail - 'detailed' asks for more key points and timestamps
+   */
+  async generateSummary(
+    transcript: Transcript,
+    language: string = 'en',
+    onProgress: ProgressListener = () => {},
+    detail: SummaryDetail = 'brief'
+  ): Promise<Summary> {
+    logger.info('Generating summary', { videoId: transcript.video_id, language, detail });
 
     // Check for long videos and log warning
     if (transcript.duration > this.LONG_VIDEO_THRESHOLD) {
@@ -33,21 +87,17 @@ export class Summarizer {
     }
 
     try {
-      const systemPrompt = 'You are a helpful assistant that creates structured summaries of video transcripts. Always respond with valid JSON.';
-      const userPrompt = this.buildPrompt(transcript, language);
-      
-      const response = await this.aiProvider.generateCompletion(systemPrompt, userPrompt, 0.3);
-      const parsed = JSON.parse(response.content);
+      const draft = await this.summarize(transcript, language, onProgress, detail);
       
       const summary: Summary = {
         title: transcript.title,
-        key_points: parsed.key_points || [],
-        timestamps: parsed.timestamps || [],
-        core_takeaway: parsed.core_takeaway || '',
+        key_points: draft.key_points,
+        timestamps: this.groundTimestamps(draft.timestamps, transcript),
+        core_takeaway: draft.core_takeaway,
       };
 
       // Validate structure
-      if (summary.key_points.length !== 5) {
+      if (detail === 'brief' && summary.key_points.length !== 5) {
         logger.warning('Summary has incorrect number of key points', {
           videoId: transcript.video_id,
           count: summary.key_points.length,
@@ -97,6 +147,166 @@ export class Summarizer {
     }
   }
 
+  /**
+   * Compares two videos: points both make, points only one makes, and
+   * contradictions, each linked to times in the videos
+   * Both videos are summarized first and compared by their summaries
+   * @param first - Transcript of the first video
+   * @param second - Transcript of the second video
+   * @param language - Language code for the comparison
+   * @param summarize - Brief summary of a video in the language, e.g. from a cache
+   * @returns Comparison with times grounded in each transcript
+   */
+  async generateComparison(
+    first: Transcript,
+    second: Transcript,
+    language: string = 'en',
+    summarize: (transcript: Transcript) => Promise<Summary> = (transcript) => this.generateSummary(transcript, language)
+  ): Promise<Comparison> {
+    logger.info('Generating comparison', { firstVideoId: first.video_id, secondVideoId: second.video_id, language });
+
+    const firstSummary = await summarize(first);
+    const secondSummary = await summarize(second);
+
+    try {
+      const response = await this.aiProvider.generateCompletion(
+        COMPARISON_SYSTEM_PROMPT,
+        this.buildComparisonPrompt(firstSummary, secondSummary, language),
+        0.3,
+        { task: 'summary' }
+      );
+      const parsed = JSON.parse(response.content);
+
+      const ground = (points: unknown): ComparisonPoint[] =>
+        (Array.isArray(points) ? points : [])
+          .filter((point) => typeof point?.point === 'string' && point.point.trim() !== '')
+          .map((point) => ({
+            point: point.point,
+            first_time: this.groundTime(point.first_time, first),
+            second_time: this.groundTime(point.second_time, second),
+          }));
+
+      const comparison: Comparison = {
+        first_video_id: first.video_id,
+        first_title: first.title,
+        second_video_id: second.video_id,
+        second_title: second.title,
+        shared_points: ground(parsed.shared_points),
+        unique_to_first: ground(parsed.unique_to_first),
+        unique_to_second: ground(parsed.unique_to_second),
+        contradictions: ground(parsed.contradictions),
+      };
+
+      logger.info('Comparison generated successfully', {
+        firstVideoId: first.video_id,
+        secondVideoId: second.video_id,
+        sharedPoints: comparison.shared_points.length,
+        contradictions: comparison.contradictions.length,
+      });
+      return comparison;
+    } catch (error: any) {
+      logger.error('Failed to generate comparison', error as Error, {
+        firstVideoId: first.video_id,
+        secondVideoId: second.video_id,
+      });
+
+      if (error.code === 'rate_limit_exceeded') {
+        throw new SummaryGenerationError(
+          'Service temporarily busy. Please try again in a moment.',
+          'RATE_LIMIT'
+        );
+      }
+
+      if (error instanceof SyntaxError) {
+        throw new SummaryGenerationError(
+          'Failed to compare the videos. Please try again.',
+          'PARSE_ERROR'
+        );
+      }
+
+      throw new SummaryGenerationError(
+        'An error occurred while comparing the videos. Please try again later.',
+        'GENERATION_FAILED'
+      );
+    }
+  }
+
+  /**
+   * Summarizes in one request, switching to map-reduce for transcripts
+   * that are too long for a single prompt
+   */
+  private async summarize(
+    transcript: Transcript,
+    language: string,
+    onProgress: ProgressListener,
+    detail: SummaryDetail
+  ): Promise<SummaryDraft> {
+    if (this.transcriptFetcher.isLongTranscript(transcript)) {
+      return this.summarizeHierarchically(transcript, language, onProgress, detail);
+    }
+
+    try {
+      onProgress({ stage: 'summarizing' });
+      return await this.requestDraft(this.buildPrompt(transcript, language, detail), 'summary');
+    } catch (error: any) {
+      if (error.code !== 'context_length_exceeded') {
+        throw error;
+      }
+
+      logger.warning('Transcript exceeds model context, switching to map-reduce', {
+        videoId: transcript.video_id,
+        textLength: transcript.text.length,
+      });
+      return this.summarizeHierarchically(transcript, language, onProgress, detail);
+    }
+  }
+
+  /**
+   * Map-reduce summarization: each part of the transcript is summarized on
+   * its own, then the partial summaries are merged into the final one
+   */
+  private async summarizeHierarchically(
+    transcript: Transcript,
+    language: string,
+    onProgress: ProgressListener,
+    detail: SummaryDetail
+  ): Promise<SummaryDraft> {
+    const parts = this.transcriptFetcher.splitTranscript(transcript, config.summary.chunkSize);
+    logger.info('Summarizing transcript in parts', {
+      videoId: transcript.video_id,
+      numParts: parts.length,
+    });
+
+    const partials: SummaryDraft[] = [];
+    for (let i = 0; i < parts.length; i++) {
+      onProgress({ stage: 'summarizing_part', part: i + 1, total: parts.length });
+      const draft = await this.requestDraft(this.buildPartPrompt(parts[i], i, parts.length), 'chunk_summary');
+      partials.push({
+        ...draft,
+        timestamps: this.groundTimestamps(draft.timestamps, parts[i]),
+      });
+      logger.info('Transcript part summarized', {
+        videoId: transcript.video_id,
+        part: i + 1,
+        numParts: parts.length,
+      });
+    }
+
+    onProgress({ stage: 'merging', total: parts.length });
+    return this.requestDraft(this.buildMergePrompt(transcript, parts, partials, language, detail), 'summary');
+  }
+
+  private async requestDraft(userPrompt: string, task: AITask): Promise<SummaryDraft> {
+    const response = await this.aiProvider.generateCompletion(SYSTEM_PROMPT, userPrompt, 0.3, { task });
+    const parsed = JSON.parse(response.content);
+
+    return {
+      key_points: parsed.key_points || [],
+      timestamps: parsed.timestamps || [],
+      core_takeaway: parsed.core_takeaway || '',
+    };
+  }
+
   /**
    * Checks if a video is considered long (>3 hours)
    * @param transcript - Transcript object
@@ -106,24 +316,211 @@ export class Summarizer {
     return transcript.duration > this.LONG_VIDEO_THRESHOLD;
   }
 
-  private buildPrompt(transcript: Transcript, language: string): string {
+  /**
+   * Validates model-provided timestamps against the transcript segments
+   * Each timestamp is snapped to the nearest segment start; unparseable times
+   * and times past the end of the video are dropped
+   * @param timestamps - Timestamps returned by the model
+   * @param transcript - Transcript the summary was generated from
+   * @returns Timestamps that point at real positions in the video, in order
+   */
+  private groundTimestamps(timestamps: Timestamp[], transcript: Transcript): Timestamp[] {
+    const segments = transcript.segments;
+
+    // Without timing information there is nothing to validate against
+    if (!segments || segments.length === 0) {
+      return timestamps;
+    }
+
+    const grounded = new Map<number, Timestamp>();
+
+    for (const ts of timestamps) {
+      const snapped = this.snapToSegment(ts?.time, transcript);
+
+      if (snapped === null) {
+        logger.warning('Dropping timestamp outside of video', {
+          videoId: transcript.video_id,
+          time: ts?.time,
+        });
+        continue;
+      }
+
+      // Keep the first description when several timestamps land on one segment
+      if (!grounded.has(snapped)) {
+        grounded.set(snapped, { time: formatTimestamp(snapped), description: ts.description });
+      }
+    }
+
+    return [...grounded.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([, ts]) => ts);
+  }
+
+  /**
+   * Grounds a single model-provided time, as done for summary timestamps
+   * @returns Formatted time of the nearest segment, or undefined when the time is missing or invalid
+   */
+  private groundTime(time: unknown, transcript: Transcript): string | undefined {
+    if (typeof time !== 'string' || time.trim() === '') {
+      return undefined;
+    }
+
+    if (!transcript.segments || transcript.segments.length === 0) {
+      const seconds = parseTimestamp(time);
+      return seconds === null ? undefined : formatTimestamp(seconds);
+    }
+
+    const snapped = this.snapToSegment(time, transcript);
+    return snapped === null ? undefined : formatTimestamp(snapped);
+  }
+
+  /**
+   * Finds the start of the segment nearest to a time
+   * @returns Segment start in whole seconds, or null for unparseable times and times past the end of the video
+   */
+  private snapToSegment(time: string, transcript: Transcript): number | null {
+    const segments = transcript.segments;
+    const seconds = parseTimestamp(time);
+    const lastSegment = segments[segments.length - 1];
+    const videoEnd = Math.max(transcript.duration, lastSegment.offset + lastSegment.duration);
+
+    if (seconds === null || seconds > videoEnd) {
+      return null;
+    }
+
+    const nearest = segments.reduce((best, segment) =>
+      Math.abs(segment.offset - seconds) < Math.abs(best.offset - seconds) ? segment : best
+    );
+    return Math.floor(nearest.offset);
+  }
+
+  /**
+   * Renders the transcript with a time marker before every segment
+   * so the model can cite real positions in the video
+   */
+  private buildTimedTranscript(transcript: Transcript): string {
+    if (!transcript.segments || transcript.segments.length === 0) {
+      return transcript.text;
+    }
+
+    return transcript.segments
+      .map((segment) => `[${formatTimestamp(segment.offset)}] ${segment.text}`)
+      .join('\n');
+  }
+
+  private buildPrompt(transcript: Transcript, language: string, detail: SummaryDetail): string {
+    const shape = SUMMARY_SHAPES[detail];
     const languageInstruction = language === 'en' 
       ? '' 
       : `\n\nProvide the summary in ${this.getLanguageName(language)}.`;
 
-    return `Given the following video transcript, generate a structured summary:
+    return `Given the following video transcript, generate a structured summary.
+Each transcript line starts with its [time] marker in the video.
 
 Title: ${transcript.title}
-Transcript: ${transcript.text}
+Transcript:
+${this.buildTimedTranscript(transcript)}
 
 Provide:
-1. Exactly 5 key points (each max 100 characters)
-2. At least 3 important timestamps with descriptions
-3. One core takeaway (single sentence)
+1. ${shape.keyPoints}
+2. ${shape.timestamps} important timestamps with descriptions, using only times copied from the [time] markers above
+3. ${shape.takeaway}
+
+Format as JSON: {"key_points": [], "timestamps": [{"time": "", "description": ""}], "core_takeaway": ""}${languageInstruction}`;
+  }
+
+  private buildPartPrompt(part: Transcript, index: number, total: number): string {
+    return `The following is part ${index + 1} of ${total} of a video transcript.
+Each transcript line starts with its [time] marker in the video.
+
+Title: ${part.title}
+Transcript:
+${this.buildTimedTranscript(part)}
+
+Summarize only this part. Provide:
+1. Up to 5 key points (each max 100 characters)
+2. Up to 3 important timestamps with descriptions, using only times copied from the [time] markers above
+3. One takeaway for this part (single sentence)
+
+Format as JSON: {"key_points": [], "timestamps": [{"time": "", "description": ""}], "core_takeaway": ""}`;
+  }
+
+  private buildMergePrompt(
+    transcript: Transcript,
+    parts: Transcript[],
+    partials: SummaryDraft[],
+    language: string,
+    detail: SummaryDetail
+  ): string {
+    const shape = SUMMARY_SHAPES[detail];
+    const languageInstruction = language === 'en'
+      ? ''
+      : `\n\nProvide the summary in ${this.getLanguageName(language)}.`;
+
+    const partSummaries = partials.map((partial, index) => {
+      const segments = parts[index].segments;
+      const range = segments.length > 0
+        ? ` (${formatTimestamp(segments[0].offset)} - ${formatTimestamp(parts[index].duration)})`
+        : '';
+      const keyPoints = partial.key_points.map((point) => `- ${point}`).join('\n');
+      const timestamps = partial.timestamps.map((ts) => `- ${ts.time} ${ts.description}`).join('\n');
+
+      return `Part ${index + 1}${range}:
+Key points:
+${keyPoints}
+Timestamps:
+${timestamps}
+Takeaway: ${partial.core_takeaway}`;
+    }).join('\n\n');
+
+    return `The following are summaries of consecutive parts of one video, in order.
+
+Title: ${transcript.title}
+
+${partSummaries}
+
+Merge them into one summary of the whole video. Provide:
+1. ${shape.keyPoints} covering the whole video
+2. ${shape.timestamps} important timestamps with descriptions, chosen from the part timestamps above and spread across the whole video
+3. ${shape.takeaway}
 
 Format as JSON: {"key_points": [], "timestamps": [{"time": "", "description": ""}], "core_takeaway": ""}${languageInstruction}`;
   }
 
+  private buildComparisonPrompt(first: Summary, second: Summary, language: string): string {
+    const languageInstruction = language === 'en'
+      ? ''
+      : `\n\nWrite the points in ${this.getLanguageName(language)}.`;
+
+    const describe = (summary: Summary, label: string): string => {
+      const keyPoints = summary.key_points.map((point) => `- ${point}`).join('\n');
+      const timestamps = summary.timestamps.map((ts) => `- ${ts.time} ${ts.description}`).join('\n');
+
+      return `${label}: ${summary.title}
+Key points:
+${keyPoints}
+Timestamps:
+${timestamps}
+Takeaway: ${summary.core_takeaway}`;
+    };
+
+    return `Compare the following two videos based on their summaries.
+
+${describe(first, 'Video 1')}
+
+${describe(second, 'Video 2')}
+
+Provide:
+1. Points both videos make
+2. Points only Video 1 makes
+3. Points only Video 2 makes
+4. Contradictions, describing the position of each video
+
+Keep each point under 150 characters. For every point, give the time in each video that covers it, copied from that video's timestamps above; leave a time empty when the video does not cover the point.
+
+Format as JSON: {"shared_points": [{"point": "", "first_time": "", "second_time": ""}], "unique_to_first": [{"point": "", "first_time": ""}], "unique_to_second": [{"point": "", "second_time": ""}], "contradictions": [{"point": "", "first_time": "", "second_time": ""}]}${languageInstruction}`;
+  }
+
   private getLanguageName(code: string): string {
     const languages: Record<string, string> = {
       en: 'English',
@@ -136,21 +533,74 @@ Format as JSON: {"key_points": [], "timestamps": [{"time": "", "description": ""
     return languages[code] || 'English';
   }
 
-  formatSummary(summary: Summary): string {
-    let formatted = `🎥 ${summary.title}\n\n`;
+  /**
+   * Formats a summary as Telegram HTML
+   * @param videoId - Makes the timestamps links into the video when given
+   */
+  formatSummary(summary: Summary, videoId?: string): string {
+    const time = (ts: Timestamp): string => {
+      const seconds = parseTimestamp(ts.time);
+      return videoId && seconds !== null ? link(buildTimestampUrl(videoId, seconds), ts.time) : escapeHtml(ts.time);
+    };
+
+    let formatted = `${bold(`🎥 ${summary.title}`)}\n\n`;
     
-    formatted += '📌 Key Points:\n';
+    formatted += `${bold('📌 Key Points:')}\n`;
     summary.key_points.forEach((point, index) => {
-      formatted += `${index + 1}. ${point}\n`;
+      formatted += `${index + 1}. ${escapeHtml(point)}\n`;
     });
     
-    formatted += '\n⏱ Important Timestamps:\n';
+    formatted += `\n${bold('⏱ Important Timestamps:')}\n`;
     summary.timestamps.forEach((ts) => {
-      formatted += `• ${ts.time} - ${ts.description}\n`;
+      formatted += `• ${time(ts)} - ${escapeHtml(ts.description)}\n`;
     });
     
-    formatted += `\n🧠 Core Takeaway:\n${summary.core_takeaway}`;
+    formatted += `\n${bold('🧠 Core Takeaway:')}\n${escapeHtml(summary.core_takeaway)}`;
     
     return formatted;
   }
+
+  /**
+   * Formats a comparison as Telegram HTML, with times linking into each video
+   */
+  formatComparison(comparison: Comparison): string {
+    const timeLink = (videoId: string, time?: string): string | null => {
+      const seconds = time ? parseTimestamp(time) : null;
+      return seconds === null ? null : link(buildTimestampUrl(videoId, seconds), time!);
+    };
+
+    const formatPoints = (points: ComparisonPoint[]): string => {
+      if (points.length === 0) {
+        return '• None\n';
+      }
+
+      return points.map((point) => {
+        const links = [
+          timeLink(comparison.first_video_id, point.first_time),
+          timeLink(comparison.second_video_id, point.second_time),
+        ];
+        const refs = [links[0] && `   1️⃣ ${links[0]}`, links[1] && `   2️⃣ ${links[1]}`]
+          .filter((ref): ref is string => !!ref)
+          .map((ref) => `\n${ref}`)
+          .join('');
+        return `• ${escapeHtml(point.point)}${refs}\n`;
+      }).join('');
+    };
+
+    let formatted = `${bold('⚖️ Comparison')}\n1️⃣ ${escapeHtml(comparison.first_title)}\n2️⃣ ${escapeHtml(comparison.second_title)}\n\n`;
+
+    formatted += `${bold('🤝 Shared Points:')}\n`;
+    formatted += formatPoints(comparison.shared_points);
+
+    formatted += `\n${bold(`1️⃣ Only in ${comparison.first_title}:`)}\n`;
+    formatted += formatPoints(comparison.unique_to_first);
+
+    formatted += `\n${bold(`2️⃣ Only in ${comparison.second_title}:`)}\n`;
+    formatted += formatPoints(comparison.unique_to_second);
+
+    formatted += `\n${bold('⚡ Contradictions:')}\n`;
+    formatted += formatPoints(comparison.contradictions);
+
+    return formatted.trimEnd();
+  }
 }
@@ -1,6 +1,7 @@
 import { YoutubeTranscript } from 'youtube-transcript';
-import { Transcript } from '../models';
+import { Transcript, TranscriptSegment } from '../models';
 import { logger } from '../utils/logger';
+import { transcriptFetches } from '../utils/metrics';
 import { config } from '../config';
 
 export class TranscriptFetchError extends Error {
@@ -18,6 +19,17 @@ export class TranscriptFetcher {
    * @throws TranscriptFetchError if transcript cannot be fetched
    */
   async fetchTranscript(videoId: string): Promise<Transcript> {
+    try {
+      const transcript = await this.fetchWithRetries(videoId);
+      transcriptFetches.inc({ outcome: 'success' });
+      return transcript;
+    } catch (error: any) {
+      transcriptFetches.inc({ outcome: error.code || 'UNKNOWN_ERROR' });
+      throw error;
+    }
+  }
+
+  private async fetchWithRetries(videoId: string): Promise<Transcript> {
     logger.info('Fetching transcript', { videoId });
 
     let lastError: Error | null = null;
@@ -34,8 +46,15 @@ export class TranscriptFetcher {
           );
         }
 
+        // Keep per-segment timing (youtube-transcript reports milliseconds)
+        const segments: TranscriptSegment[] = transcriptData.map(item => ({
+          text: item.text,
+          offset: item.offset / 1000,
+          duration: item.duration / 1000
+        }));
+
         // Combine all transcript segments into full text
-        const fullText = transcriptData.map(item => item.text).join(' ');
+        const fullText = segments.map(segment => segment.text).join(' ');
         
         // Calculate duration from transcript (last segment's offset)
         const duration = transcriptData.length > 0 
@@ -49,6 +68,7 @@ export class TranscriptFetcher {
           video_id: videoId,
           title: `Video ${videoId}`, // Will be enhanced with actual title later
           text: fullText,
+          segments,
           language,
           duration,
           fetched_at: new Date()
@@ -57,6 +77,7 @@ export class TranscriptFetcher {
         logger.info('Transcript fetched successfully', {
           videoId,
           textLength: fullText.length,
+          segmentCount: segments.length,
           duration
         });
 
@@ -189,6 +210,65 @@ export class TranscriptFetcher {
     return chunks;
   }
 
+  /**
+   * Splits a transcript into consecutive parts on segment boundaries
+   * Each part is a transcript of its own, keeping the timing of its segments
+   * @param transcript - Transcript object
+   * @param chunkSize - Approximate size of each part in characters
+   * @returns Array of transcript parts in video order
+   */
+  splitTranscript(transcript: Transcript, chunkSize: number = 50000): Transcript[] {
+    // Without timing information fall back to plain character chunks
+    if (!transcript.segments || transcript.segments.length === 0) {
+      return this.chunkTranscript(transcript, chunkSize).map(text => ({
+        ...transcript,
+        text,
+        segments: []
+      }));
+    }
+
+    const parts: Transcript[] = [];
+    let current: TranscriptSegment[] = [];
+    let currentLength = 0;
+
+    for (const segment of transcript.segments) {
+      if (current.length > 0 && currentLength + segment.text.length > chunkSize) {
+        parts.push(this.buildPart(transcript, current));
+        current = [];
+        currentLength = 0;
+      }
+
+      current.push(segment);
+      currentLength += segment.text.length + 1; // joining space
+    }
+
+    if (current.length > 0) {
+      parts.push(this.buildPart(transcript, current));
+    }
+
+    logger.info('Transcript split into parts', {
+      videoId: transcript.video_id,
+      totalLength: transcript.text.length,
+      numParts: parts.length
+    });
+
+    return parts;
+  }
+
+  /**
+   * Builds a transcript part from a run of consecutive segments
+   */
+  private buildPart(transcript: Transcript, segments: TranscriptSegment[]): Transcript {
+    const lastSegment = segments[segments.length - 1];
+
+    return {
+      ...transcript,
+      text: segments.map(segment => segment.text).join(' '),
+      segments,
+      duration: Math.floor(lastSegment.offset + lastSegment.duration)
+    };
+  }
+
   /**
    * Helper method to sleep for a specified duration
    * @param ms - Milliseconds to sleep
@@ -3,24 +3,121 @@ import dotenv from 'dotenv';
 
 dotenv.config();
 
+type ModelPrices = Record<string, { prompt: number; completion: number }>;
+
+/**
+ * Parses a price table such as USAGE_PRICES
+ * @returns null when the value is not valid JSON or not shaped like the price table
+ */
+function parsePrices(json: string): ModelPrices | null {
+  let prices: unknown;
+  try {
+    prices = JSON.parse(json);
+  } catch {
+    return null;
+  }
+
+  if (typeof prices !== 'object' || prices === null || Array.isArray(prices)) {
+    return null;
+  }
+
+  const valid = Object.values(prices).every(
+    (price) => typeof price?.prompt === 'number' && typeof price?.completion === 'number'
+  );
+  return valid ? (prices as ModelPrices) : null;
+}
+
 export const config = {
   telegram: {
     botToken: process.env.TELEGRAM_BOT_TOKEN || '',
+    mode: process.env.TELEGRAM_MODE || 'polling', // 'polling' or 'webhook'
+    webhook: {
+      url: process.env.WEBHOOK_URL || '', // public HTTPS URL; its path is where updates are accepted
+      secretToken: process.env.WEBHOOK_SECRET_TOKEN || '',
+    },
+    // Replies longer than 4096 characters are split; above this many parts the full
+    // text is also sent as a Markdown document. 0 always splits
+    maxMessageParts: parseInt(process.env.MAX_MESSAGE_PARTS || '0', 10),
+    // Telegram drops answers to inline queries after about 10 seconds; a summary not ready by
+    // then is answered with a placeholder and served from the cache on a later query
+    inlineAnswerTimeoutMs: parseInt(process.env.INLINE_ANSWER_TIMEOUT_MS || '8000', 10),
+  },
+  server: {
+    // HTTP server for /healthz, /readyz, /metrics and, in webhook mode, Telegram updates
+    port: parseInt(process.env.PORT || '8080', 10),
   },
   gemini: {
     apiKey: process.env.GEMINI_API_KEY || '',
     model: process.env.GEMINI_MODEL || 'gemini-1.5-flash',
   },
+  ai: {
+    // Providers in order of preference; only those with an API key are used
+    providers: (process.env.AI_PROVIDERS || 'openai,gemini,local')
+      .split(',')
+      .map((name) => name.trim().toLowerCase())
+      .filter((name) => name.length > 0),
+    timeoutMs: parseInt(process.env.AI_TIMEOUT_MS || '60000', 10),
+    failureThreshold: 2, // consecutive failures before a provider is marked down
+    cooldownSeconds: parseInt(process.env.AI_PROVIDER_COOLDOWN_SECONDS || '60', 10),
+    // Per-task "provider" or "provider:model", e.g. "openai:gpt-4o-mini"; empty uses the providers above
+    routes: {
+      summary: process.env.AI_ROUTE_SUMMARY || '',
+      chunk_summary: process.env.AI_ROUTE_CHUNK_SUMMARY || '',
+      qa: process.env.AI_ROUTE_QA || '',
+      translation: process.env.AI_ROUTE_TRANSLATION || '',
+      action_points: process.env.AI_ROUTE_ACTION_POINTS || '',
+    },
+  },
+  scripted: {
+    mode: process.env.SCRIPTED_AI_MODE || '', // '', 'replay' or 'record'
+    fixtureDir: process.env.SCRIPTED_AI_FIXTURES || './fixtures/ai',
+  },
+  local: {
+    baseUrl: process.env.LOCAL_LLM_BASE_URL || '', // OpenAI-compatible API root, e.g. http://localhost:11434/v1
+    model: process.env.LOCAL_LLM_MODEL || 'llama3.1:8b',
+    apiKey: process.env.LOCAL_LLM_API_KEY || 'local',
+    jsonMode: (process.env.LOCAL_LLM_JSON_MODE || 'prompt') as 'native' | 'prompt',
+  },
   openai: {
     apiKey: process.env.OPENAI_API_KEY || '',
     model: process.env.OPENAI_MODEL || 'gpt-4-turbo-preview',
   },
+  admin: {
+    userIds: (process.env.ADMIN_USER_IDS || '') // Telegram user IDs allowed to use admin commands
+      .split(',')
+      .map((id) => id.trim())
+      .filter((id) => id.length > 0),
+  },
+  quota: {
+    // Per-user limits; 0 disables one. Admins are exempt
+    videosPerDay: parseInt(process.env.QUOTA_VIDEOS_PER_DAY || '20', 10),
+    questionsPerHour: parseInt(process.env.QUOTA_QUESTIONS_PER_HOUR || '60', 10),
+    tokensPerDay: parseInt(process.env.QUOTA_TOKENS_PER_DAY || '1000000', 10),
+  },
+  usage: {
+    // USD per million tokens; USAGE_PRICES (JSON, same shape) adds or overrides entries
+    prices: {
+      'gpt-4-turbo': { prompt: 10, completion: 30 },
+      'gpt-4-0125-preview': { prompt: 10, completion: 30 },
+      'gpt-4o-mini': { prompt: 0.15, completion: 0.6 },
+      'gpt-4o': { prompt: 2.5, completion: 10 },
+      'gemini-1.5-flash': { prompt: 0.075, completion: 0.3 },
+      'gemini-1.5-pro': { prompt: 1.25, completion: 5 },
+      // An invalid value is reported by validateConfig
+      ...parsePrices(process.env.USAGE_PRICES || '{}'),
+    } as ModelPrices,
+  },
   logging: {
     level: process.env.LOG_LEVEL || 'info',
   },
   session: {
     ttlHours: 24,
     cleanupIntervalHours: 1,
+    maxVideosPerUser: 10,
+  },
+  storage: {
+    backend: process.env.STORAGE_BACKEND || 'memory', // 'memory' or 'sqlite'
+    sqlitePath: process.env.SQLITE_PATH || './data/bot.db',
   },
   cache: {
     maxVideos: 1000,
@@ -33,28 +130,86 @@ export const config = {
   },
   summary: {
     longTranscriptTokens: 8000,
+    chunkSize: 50000, // characters per part in map-reduce mode
     keyPointsCount: 5,
     minTimestamps: 3,
   },
   qa: {
     chunkSize: 500, // words
     chunkOverlap: 50, // words
+    retrieval: (process.env.QA_RETRIEVAL || 'lexical') as 'lexical' | 'semantic' | 'hybrid',
     maxRelevantChunks: 3,
+    maxCrossVideoChunks: 8, // context passages for questions across all of a user's videos
+    bm25: {
+      k1: 1.2, // term frequency saturation
+      b: 0.75, // document length normalization
+    },
     maxHistoryPairs: 5,
   },
+  embedding: {
+    provider: process.env.EMBEDDING_PROVIDER || 'hashing', // 'hashing' or 'local'
+    model: process.env.EMBEDDING_MODEL || 'Xenova/multilingual-e5-small',
+    modelPath: process.env.EMBEDDING_MODEL_PATH || '', // directory with downloaded models for offline use
+    dimensions: 512, // hashing embedder only
+    minSimilarity: 0.2,
+  },
 };
 
 // Validate required configuration
-export function validateConfig(): void {
+// The CLI passes requireTelegram: false, as it does not talk to Telegram
+export function validateConfig({ requireTelegram = true }: { requireTelegram?: boolean } = {}): void {
   const errors: string[] = [];
 
-  if (!config.telegram.botToken) {
-    errors.push('TELEGRAM_BOT_TOKEN is required');
+  if (requireTelegram) {
+    if (!config.telegram.botToken) {
+      errors.push('TELEGRAM_BOT_TOKEN is required');
+    }
+
+    if (config.telegram.mode !== 'polling' && config.telegram.mode !== 'webhook') {
+      errors.push('TELEGRAM_MODE must be polling or webhook');
+    }
+
+    if (config.telegram.mode === 'webhook') {
+      if (!config.telegram.webhook.url.startsWith('https://')) {
+        errors.push('WEBHOOK_URL must be an https:// URL in webhook mode');
+      }
+      // Telegram accepts 1-256 characters from A-Z, a-z, 0-9, _ and -
+      if (!/^[A-Za-z0-9_-]{1,256}$/.test(config.telegram.webhook.secretToken)) {
+        errors.push('WEBHOOK_SECRET_TOKEN is required in webhook mode (1-256 characters: A-Z, a-z, 0-9, _ and -)');
+      }
+    }
+  }
+
+  // At least one AI provider must be configured, unless responses are replayed
+  if (config.scripted.mode !== 'replay' && !config.gemini.apiKey && !config.openai.apiKey && !config.local.baseUrl) {
+    errors.push('One of GEMINI_API_KEY, OPENAI_API_KEY or LOCAL_LLM_BASE_URL is required');
+  }
+
+  for (const [task, route] of Object.entries(config.ai.routes)) {
+    const provider = route.split(':')[0].trim().toLowerCase();
+    if (route && !['openai', 'gemini', 'local'].includes(provider)) {
+      errors.push(`AI_ROUTE_${task.toUpperCase()} must start with openai, gemini or local`);
+    }
+  }
+
+  if (config.local.jsonMode !== 'native' && config.local.jsonMode !== 'prompt') {
+    errors.push('LOCAL_LLM_JSON_MODE must be native or prompt');
+  }
+
+  if (!['lexical', 'semantic', 'hybrid'].includes(config.qa.retrieval)) {
+    errors.push('QA_RETRIEVAL must be lexical, semantic or hybrid');
+  }
+
+  if (config.embedding.provider !== 'hashing' && config.embedding.provider !== 'local') {
+    errors.push('EMBEDDING_PROVIDER must be hashing or local');
+  }
+
+  if (config.storage.backend !== 'memory' && config.storage.backend !== 'sqlite') {
+    errors.push('STORAGE_BACKEND must be memory or sqlite');
   }
 
-  // At least one AI provider must be configured
-  if (!config.gemini.apiKey && !config.openai.apiKey) {
-    errors.push('Either GEMINI_API_KEY or OPENAI_API_KEY is required');
+  if (parsePrices(process.env.USAGE_PRICES || '{}') === null) {
+    errors.push('USAGE_PRICES must be a JSON object like {"gpt-4o-mini":{"prompt":0.15,"completion":0.6}}');
   }
 
   if (errors.length > 0) {
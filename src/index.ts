@@ -1,15 +1,10 @@
 import TelegramBot from 'node-telegram-bot-api';
 import { config, validateConfig } from './config';
 import { logger } from './utils/logger';
-import { TranscriptFetcher } from './components/TranscriptFetcher';
-import { ContextManager } from './components/ContextManager';
-import { Summarizer } from './components/Summarizer';
-import { QAEngine } from './components/QAEngine';
-import { LanguageProcessor } from './components/LanguageProcessor';
-import { MessageRouter } from './components/MessageRouter';
-import { CommandHandler } from './components/CommandHandler';
-import { SessionState } from './models';
-import { handleError } from './utils/errorHandler';
+import { createApp } from './app';
+import { TelegramAdapter } from './adapters/TelegramAdapter';
+import { HttpServer, createReadinessHandler, createWebhookHandler } from './utils/httpServer';
+import { PROMETHEUS_CONTENT_TYPE, registry } from './utils/metrics';
 
 // Validate configuration
 try {
@@ -21,252 +16,79 @@ try {
 
 // Initialize all components
 logger.info('🤖 Telegram YouTube Summarizer Bot is starting...');
-logger.info('Initializing components...');
+const { conversationService, contextManager, aiProvider } = createApp();
+
+// Create bot instance; in webhook mode updates arrive through the HTTP server instead
+const webhookMode = config.telegram.mode === 'webhook';
+const bot = new TelegramBot(config.telegram.botToken, { polling: !webhookMode });
+new TelegramAdapter(bot, conversationService).start();
+
+// Operational endpoints for liveness and readiness probes and Prometheus
+registry.gauge('bot_sessions', 'Stored sessions across all users', () => contextManager.getStats().activeSessions);
+registry.gauge('bot_cached_transcripts', 'Transcripts in the cache', () => contextManager.getStats().cachedTranscripts);
+
+const httpServer = new HttpServer()
+  .route('GET', '/healthz', () => ({ status: 200, body: 'ok' }))
+  .route('GET', '/readyz', createReadinessHandler({
+    config: validateConfig,
+    providers: () => {
+      const statuses = aiProvider.getStatus();
+      if (statuses.length > 0 && !statuses.some((status) => status.available)) {
+        throw new Error(`all providers marked down: ${statuses.map((status) => status.name).join(', ')}`);
+      }
+    },
+    storage: () => {
+      contextManager.getStats();
+    },
+  }))
+  .route('GET', '/metrics', () => ({ status: 200, contentType: PROMETHEUS_CONTENT_TYPE, body: registry.render() }));
 
-const transcriptFetcher = new TranscriptFetcher();
-const contextManager = new ContextManager();
-const summarizer = new Summarizer();
-const qaEngine = new QAEngine();
-const languageProcessor = new LanguageProcessor();
-const messageRouter = new MessageRouter();
-const commandHandler = new CommandHandler(contextManager, summarizer);
-
-logger.info('✅ All components initialized successfully');
-
-// Create bot instance
-const bot = new TelegramBot(config.telegram.botToken, { polling: true });
-
-/**
- * Main message handler - routes all incoming messages
- */
-bot.on('message', async (msg) => {
-  const chatId = msg.chat.id;
-  const userId = msg.from?.id.toString() || chatId.toString();
-  const text = msg.text || '';
-
-  logger.info('Received message', { userId, chatId, messageLength: text.length });
-
-  try {
-    // Get current session state
-    const session = await contextManager.getSession(userId);
-    const isExpired = session ? Date.now() - session.last_accessed.getTime() > 24 * 60 * 60 * 1000 : false;
-    const sessionState = messageRouter.getSessionState(!!session, isExpired);
-
-    // Route the message
-    const route = messageRouter.routeMessage(userId, text, sessionState);
-
-    switch (route.type) {
-      case 'command':
-        await handleCommand(userId, chatId, route.command!, route.message!);
-        break;
-
-      case 'youtube_url':
-        await handleYouTubeUrl(userId, chatId, route.videoId!);
-        break;
-
-      case 'question':
-        await handleQuestion(userId, chatId, route.question!);
-        break;
-
-      case 'usage_instructions':
-        await bot.sendMessage(chatId, route.message!);
-        break;
-
-      case 'no_session_error':
-        await bot.sendMessage(chatId, route.message!);
-        break;
-
-      default:
-        await bot.sendMessage(chatId, 'Sorry, I did not understand that. Try /help for usage instructions.');
-    }
-  } catch (error: any) {
-    logger.error('Error handling message', error, { userId, chatId });
-    const errorMessage = handleError(error);
-    await bot.sendMessage(chatId, errorMessage);
-  }
+// Error handling
+bot.on('polling_error', (error) => {
+  logger.error('Polling error occurred', error as Error);
 });
 
 /**
- * Handle bot commands
+ * Starts the HTTP server; in webhook mode it also accepts updates on the webhook URL's path
+ * and registers the webhook with Telegram
+ * Run one replica: sessions, quotas and caches are kept in this process or its local SQLite file
  */
-async function handleCommand(userId: string, chatId: number, command: string, fullMessage: string): Promise<void> {
-  logger.info('Handling command', { userId, command });
-
-  try {
-    let response: string;
-
-    switch (command) {
-      case 'start':
-        response = getWelcomeMessage();
-        break;
-
-      case 'help':
-        response = commandHandler.handleHelpCommand();
-        break;
-
-      case 'summary':
-        response = await commandHandler.handleSummaryCommand(userId);
-        break;
-
-      case 'actionpoints':
-        response = await commandHandler.handleActionPointsCommand(userId);
-        break;
-
-      case 'clear':
-        response = await commandHandler.handleClearCommand(userId);
-        break;
-
-      default:
-        response = `Unknown command: /${command}\n\nTry /help for available commands.`;
-    }
-
-    await bot.sendMessage(chatId, response);
-  } catch (error: any) {
-    logger.error('Error handling command', error, { userId, command });
-    const errorMessage = handleError(error);
-    await bot.sendMessage(chatId, errorMessage);
+async function startHttpServer(): Promise<void> {
+  if (webhookMode) {
+    const { url, secretToken } = config.telegram.webhook;
+    httpServer.route('POST', new URL(url).pathname, createWebhookHandler(secretToken, (update) => {
+      bot.processUpdate(update);
+    }));
   }
-}
-
-/**
- * Handle YouTube URL - fetch transcript and generate summary
- */
-async function handleYouTubeUrl(userId: string, chatId: number, videoId: string): Promise<void> {
-  logger.info('Handling YouTube URL', { userId, videoId });
-
-  try {
-    // Send processing message
-    await bot.sendMessage(chatId, '⏳ Processing video... This may take a moment.');
-
-    // Fetch transcript
-    const transcript = await transcriptFetcher.fetchTranscript(videoId);
-    logger.info('Transcript fetched successfully', { userId, videoId, length: transcript.text.length });
-
-    // Detect language preference from previous messages or default to English
-    const session = await contextManager.getSession(userId);
-    const language = session?.language || 'en';
-
-    // Create or update session
-    await contextManager.createSession(userId, videoId, transcript);
-    logger.info('Session created', { userId, videoId, language });
 
-    // Generate summary
-    const summary = await summarizer.generateSummary(transcript, language);
-    const formattedSummary = summarizer.formatSummary(summary);
-    logger.info('Summary generated', { userId, videoId });
+  const port = await httpServer.listen(config.server.port);
+  logger.info('HTTP server listening', { port });
 
-    // Send summary to user
-    await bot.sendMessage(chatId, formattedSummary);
-    await bot.sendMessage(
-      chatId,
-      '💬 You can now ask questions about this video, or send /summary to see the summary again.'
-    );
-  } catch (error: any) {
-    logger.error('Error handling YouTube URL', error, { userId, videoId });
-    const errorMessage = handleError(error);
-    await bot.sendMessage(chatId, errorMessage);
+  if (webhookMode) {
+    await bot.setWebHook(config.telegram.webhook.url, { secret_token: config.telegram.webhook.secretToken });
+    logger.info('Webhook registered with Telegram');
   }
 }
 
-/**
- * Handle user question about current video
- */
-async function handleQuestion(userId: string, chatId: number, question: string): Promise<void> {
-  logger.info('Handling question', { userId, questionLength: question.length });
-
-  try {
-    // Get session
-    const session = await contextManager.getSession(userId);
-    if (!session) {
-      await bot.sendMessage(chatId, 'No active session. Please send a YouTube link first.');
-      return;
-    }
-
-    // Detect language in question
-    const detectedLanguage = languageProcessor.detectLanguageRequest(question);
-    if (detectedLanguage) {
-      logger.info('Language detected in question', { userId, language: detectedLanguage });
-      session.language = detectedLanguage;
-    }
-
-    // Send typing indicator
-    await bot.sendChatAction(chatId, 'typing');
-
-    // Answer question
-    const answer = await qaEngine.answerQuestion(
-      question,
-      session.transcript,
-      session.history
-    );
-    logger.info('Answer generated', { userId, answerLength: answer.length });
-
-    // Translate answer if needed
-    let finalAnswer = answer;
-    if (session.language !== 'en') {
-      finalAnswer = await languageProcessor.translateAnswer(answer, session.language);
-      logger.info('Answer translated', { userId, language: session.language });
-    }
-
-    // Update conversation history
-    await contextManager.updateHistory(userId, question, finalAnswer);
-
-    // Send answer to user
-    await bot.sendMessage(chatId, finalAnswer);
-  } catch (error: any) {
-    logger.error('Error handling question', error, { userId });
-    const errorMessage = handleError(error);
-    await bot.sendMessage(chatId, errorMessage);
-  }
-}
-
-/**
- * Get welcome message for /start command
- */
-function getWelcomeMessage(): string {
-  return `🎥 *Welcome to YouTube Summarizer Bot!*
-
-I can help you understand YouTube videos quickly by providing:
-• Structured summaries with key points
-• Important timestamps
-• Q&A about video content
-• Multi-language support
-
-*How to use:*
-1️⃣ Send me a YouTube link
-2️⃣ Get an instant summary
-3️⃣ Ask questions about the video
-
-*Available commands:*
-/start - Show this welcome message
-/help - Display detailed help
-/summary - Get summary of current video
-/actionpoints - Extract actionable items
-/clear - Clear current session
-
-*Supported languages:*
-English, Hindi, Tamil, Telugu, Kannada, Marathi
-
-Just send me a YouTube link to get started! 🚀`;
-}
-
-// Error handling
-bot.on('polling_error', (error) => {
-  logger.error('Polling error occurred', error as Error);
-});
-
 // Graceful shutdown
-process.on('SIGINT', () => {
-  logger.info('Shutting down bot...');
-  contextManager.stopCleanupTask();
-  bot.stopPolling();
-  process.exit(0);
-});
-
-process.on('SIGTERM', () => {
+async function shutdown(): Promise<void> {
   logger.info('Shutting down bot...');
-  contextManager.stopCleanupTask();
-  bot.stopPolling();
+  contextManager.close();
+  if (!webhookMode) {
+    await bot.stopPolling();
+  }
+  await httpServer.close();
   process.exit(0);
-});
+}
 
-logger.info('✅ Bot is running and ready to receive messages!');
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
+
+startHttpServer()
+  .then(() => logger.info(webhookMode
+    ? '✅ Bot is running and ready to receive updates via webhook!'
+    : '✅ Bot is running and ready to receive messages!'))
+  .catch((error) => {
+    logger.critical('Failed to start HTTP server', error as Error);
+    process.exit(1);
+  });
@@ -1,9 +1,16 @@
 // Data models for the Telegram YouTube Summarizer Bot
 
+export interface TranscriptSegment {
+  text: string;
+  offset: number; // seconds from start of video
+  duration: number; // seconds
+}
+
 export interface Transcript {
   video_id: string;
   title: string;
   text: string;
+  segments: TranscriptSegment[]; // ordered by offset
   language: string;
   duration: number; // seconds
   fetched_at: Date;
@@ -21,6 +28,31 @@ export interface Summary {
   core_takeaway: string;
 }
 
+export interface ComparisonPoint {
+  point: string;
+  first_time?: string; // "MM:SS" or "HH:MM:SS" in the first video, when it covers the point
+  second_time?: string; // same for the second video
+}
+
+export interface Comparison {
+  first_video_id: string;
+  first_title: string;
+  second_video_id: string;
+  second_title: string;
+  shared_points: ComparisonPoint[];
+  unique_to_first: ComparisonPoint[];
+  unique_to_second: ComparisonPoint[];
+  contradictions: ComparisonPoint[]; // describes both positions
+}
+
+/**
+ * Button shown under a reply; pressing it sends its command like a typed message
+ */
+export interface ReplyButton {
+  text: string;
+  command: string; // e.g. "/translate hi"; Telegram allows at most 64 bytes
+}
+
 export interface Chunk {
   text: string;
   start_time: string;
@@ -28,6 +60,17 @@ export interface Chunk {
   index: number;
 }
 
+export interface Citation {
+  start_time: number; // seconds
+  end_time: number; // seconds
+  video_id?: string; // set when the answer spans several videos
+}
+
+export interface Answer {
+  answer: string;
+  citations: Citation[]; // transcript ranges the answer is based on
+}
+
 export interface QAPair {
   question: string;
   answer: string;
@@ -48,6 +91,12 @@ export interface Session {
   last_accessed: Date;
 }
 
+// Uses of a per-user quota in its current time window
+export interface QuotaCounter {
+  count: number;
+  window_start: Date;
+}
+
 export enum SessionState {
   NO_SESSION = 'NO_SESSION',
   ACTIVE = 'ACTIVE',
@@ -0,0 +1,156 @@
+import { Session, Transcript, Summary, QuotaCounter } from '../models';
+import { StorageAdapter } from './StorageAdapter';
+
+/**
+ * Keeps everything in process memory; data is lost on restart
+ */
+export class MemoryStorage implements StorageAdapter {
+  private sessions: Map<string, Map<string, Session>>; // user ID -> video ID -> session
+  private activeVideos: Map<string, string>; // user ID -> video ID
+  private transcripts: Map<string, Transcript>;
+  private summaries: Map<string, Map<string, Summary>>; // video ID -> language -> summary
+  private quotaCounters: Map<string, QuotaCounter>; // "user ID:quota" -> counter
+
+  constructor() {
+    this.sessions = new Map();
+    this.activeVideos = new Map();
+    this.transcripts = new Map();
+    this.summaries = new Map();
+    this.quotaCounters = new Map();
+  }
+
+  getSession(userId: string, videoId?: string): Session | null {
+    const key = videoId ?? this.activeVideos.get(userId);
+    if (key === undefined) {
+      return null;
+    }
+    return this.sessions.get(userId)?.get(key) || null;
+  }
+
+  listSessions(userId: string): Session[] {
+    const userSessions = this.sessions.get(userId);
+    if (!userSessions) {
+      return [];
+    }
+
+    // Reverse insertion order first so ties list the later session first
+    return [...userSessions.values()]
+      .reverse()
+      .sort((a, b) => b.created_at.getTime() - a.created_at.getTime());
+  }
+
+  saveSession(session: Session): void {
+    let userSessions = this.sessions.get(session.user_id);
+    if (!userSessions) {
+      userSessions = new Map();
+      this.sessions.set(session.user_id, userSessions);
+    }
+    userSessions.set(session.video_id, session);
+  }
+
+  touchSession(userId: string, videoId: string, accessedAt: Date): void {
+    const session = this.sessions.get(userId)?.get(videoId);
+    if (session) {
+      session.last_accessed = accessedAt;
+    }
+  }
+
+  setActiveSession(userId: string, videoId: string): void {
+    this.activeVideos.set(userId, videoId);
+  }
+
+  deleteSession(userId: string, videoId?: string): boolean {
+    const key = videoId ?? this.activeVideos.get(userId);
+    const userSessions = this.sessions.get(userId);
+    if (key === undefined || !userSessions) {
+      return false;
+    }
+
+    const deleted = userSessions.delete(key);
+    if (this.activeVideos.get(userId) === key) {
+      this.activeVideos.delete(userId);
+    }
+    if (userSessions.size === 0) {
+      this.sessions.delete(userId);
+    }
+
+    return deleted;
+  }
+
+  deleteSessionsAccessedBefore(cutoff: Date): string[] {
+    const emptiedUsers: string[] = [];
+
+    for (const [userId, userSessions] of this.sessions.entries()) {
+      for (const session of [...userSessions.values()]) {
+        if (session.last_accessed.getTime() < cutoff.getTime()) {
+          this.deleteSession(userId, session.video_id);
+        }
+      }
+
+      if (!this.sessions.has(userId)) {
+        emptiedUsers.push(userId);
+      }
+    }
+
+    return emptiedUsers;
+  }
+
+  countSessions(): number {
+    let count = 0;
+    for (const userSessions of this.sessions.values()) {
+      count += userSessions.size;
+    }
+    return count;
+  }
+
+  getTranscript(videoId: string): Transcript | null {
+    return this.transcripts.get(videoId) || null;
+  }
+
+  saveTranscript(videoId: string, transcript: Transcript): void {
+    this.transcripts.set(videoId, transcript);
+  }
+
+  deleteTranscript(videoId: string): void {
+    this.transcripts.delete(videoId);
+  }
+
+  getOldestTranscriptId(): string | null {
+    // Map iteration follows insertion order
+    const firstKey = this.transcripts.keys().next().value;
+    return firstKey === undefined ? null : firstKey;
+  }
+
+  countTranscripts(): number {
+    return this.transcripts.size;
+  }
+
+  getSummary(videoId: string, language: string): Summary | null {
+    return this.summaries.get(videoId)?.get(language) || null;
+  }
+
+  saveSummary(videoId: string, language: string, summary: Summary): void {
+    let videoSummaries = this.summaries.get(videoId);
+    if (!videoSummaries) {
+      videoSummaries = new Map();
+      this.summaries.set(videoId, videoSummaries);
+    }
+    videoSummaries.set(language, summary);
+  }
+
+  deleteSummaries(videoId: string): void {
+    this.summaries.delete(videoId);
+  }
+
+  getQuotaCounter(userId: string, quota: string): QuotaCounter | null {
+    return this.quotaCounters.get(`${userId}:${quota}`) || null;
+  }
+
+  saveQuotaCounter(userId: string, quota: string, counter: QuotaCounter): void {
+    this.quotaCounters.set(`${userId}:${quota}`, { ...counter });
+  }
+
+  close(): void {
+    // Nothing to release
+  }
+}
@@ -0,0 +1,381 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { Session, Transcript, Summary, QAPair, QuotaCounter } from '../models';
+import { StorageAdapter } from './StorageAdapter';
+
+interface SessionRow {
+  user_id: string;
+  video_id: string;
+  transcript: string; // joined from transcripts
+  chunks: string;
+  language: string;
+  created_at: string;
+  last_accessed: string;
+}
+
+interface HistoryRow {
+  question: string;
+  answer: string;
+  timestamp: string;
+}
+
+/**
+ * Schema migrations, applied in order; PRAGMA user_version records how many ran
+ */
+const MIGRATIONS = [
+  `
+    CREATE TABLE IF NOT EXISTS sessions (
+      user_id TEXT PRIMARY KEY,
+      video_id TEXT NOT NULL,
+      transcript TEXT NOT NULL,
+      chunks TEXT NOT NULL,
+      language TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      last_accessed TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS qa_history (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id TEXT NOT NULL,
+      question TEXT NOT NULL,
+      answer TEXT NOT NULL,
+      timestamp TEXT NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_qa_history_user ON qa_history (user_id);
+
+    CREATE TABLE IF NOT EXISTS transcripts (
+      video_id TEXT PRIMARY KEY,
+      transcript TEXT NOT NULL,
+      cached_at INTEGER NOT NULL
+    );
+  `,
+  // One session per user and video, with a pointer to the active one
+  `
+    CREATE TABLE video_sessions (
+      user_id TEXT NOT NULL,
+      video_id TEXT NOT NULL,
+      transcript TEXT NOT NULL,
+      chunks TEXT NOT NULL,
+      language TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      last_accessed TEXT NOT NULL,
+      PRIMARY KEY (user_id, video_id)
+    );
+
+    CREATE TABLE active_sessions (
+      user_id TEXT PRIMARY KEY,
+      video_id TEXT NOT NULL
+    );
+
+    INSERT INTO video_sessions SELECT user_id, video_id, transcript, chunks, language, created_at, last_accessed FROM sessions;
+    INSERT INTO active_sessions SELECT user_id, video_id FROM sessions;
+
+    ALTER TABLE qa_history ADD COLUMN video_id TEXT NOT NULL DEFAULT '';
+    UPDATE qa_history SET video_id = COALESCE((SELECT video_id FROM sessions WHERE sessions.user_id = qa_history.user_id), '');
+    DROP INDEX idx_qa_history_user;
+    CREATE INDEX idx_qa_history_session ON qa_history (user_id, video_id);
+
+    DROP TABLE sessions;
+  `,
+  `
+    CREATE TABLE quota_counters (
+      user_id TEXT NOT NULL,
+      quota TEXT NOT NULL,
+      count INTEGER NOT NULL,
+      window_start TEXT NOT NULL,
+      PRIMARY KEY (user_id, quota)
+    );
+  `,
+  `
+    CREATE TABLE summaries (
+      video_id TEXT NOT NULL,
+      language TEXT NOT NULL,
+      summary TEXT NOT NULL,
+      PRIMARY KEY (video_id, language)
+    );
+  `,
+  // Sessions share one copy of the transcript per video with the cache; "cached" is 0 for
+  // transcripts only kept for sessions
+  `
+    ALTER TABLE transcripts ADD COLUMN cached INTEGER NOT NULL DEFAULT 1;
+    INSERT OR IGNORE INTO transcripts (video_id, transcript, cached_at, cached)
+      SELECT video_id, transcript, 0, 0 FROM video_sessions;
+    ALTER TABLE video_sessions DROP COLUMN transcript;
+  `,
+];
+
+const SESSION_COLUMNS = 's.*, t.transcript';
+
+/**
+ * Persists sessions, Q&A history, cached transcripts and summaries, and quota counters in a SQLite file
+ * so they survive restarts
+ * Each transcript is stored once and shared by the cache and the sessions of its video
+ */
+export class SqliteStorage implements StorageAdapter {
+  private db: Database.Database;
+
+  /**
+   * @param filePath - Database file; parent directories are created, ':memory:' is allowed
+   */
+  constructor(filePath: string) {
+    if (filePath !== ':memory:') {
+      fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+    }
+
+    this.db = new Database(filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.migrate();
+  }
+
+  getSession(userId: string, videoId?: string): Session | null {
+    const row = (videoId === undefined
+      ? this.db.prepare(`
+          SELECT ${SESSION_COLUMNS} FROM video_sessions s
+          JOIN active_sessions a ON a.user_id = s.user_id AND a.video_id = s.video_id
+          JOIN transcripts t ON t.video_id = s.video_id
+          WHERE s.user_id = ?
+        `).get(userId)
+      : this.db.prepare(`
+          SELECT ${SESSION_COLUMNS} FROM video_sessions s
+          JOIN transcripts t ON t.video_id = s.video_id
+          WHERE s.user_id = ? AND s.video_id = ?
+        `).get(userId, videoId)
+    ) as SessionRow | undefined;
+
+    return row ? this.toSession(row) : null;
+  }
+
+  listSessions(userId: string): Session[] {
+    const rows = this.db
+      .prepare(`
+        SELECT ${SESSION_COLUMNS} FROM video_sessions s
+        JOIN transcripts t ON t.video_id = s.video_id
+        WHERE s.user_id = ? ORDER BY s.created_at DESC, s.rowid DESC
+      `)
+      .all(userId) as SessionRow[];
+
+    return rows.map((row) => this.toSession(row));
+  }
+
+  saveSession(session: Session): void {
+    const save = this.db.transaction((s: Session) => {
+      // The video's transcript is written once; re-caching it updates the shared copy
+      const hasTranscript = this.db.prepare('SELECT 1 FROM transcripts WHERE video_id = ?').get(s.video_id);
+      if (!hasTranscript) {
+        this.db.prepare('INSERT INTO transcripts (video_id, transcript, cached_at, cached) VALUES (?, ?, 0, 0)')
+          .run(s.video_id, JSON.stringify(s.transcript));
+      }
+
+      this.db.prepare(`
+        INSERT INTO video_sessions (user_id, video_id, chunks, language, created_at, last_accessed)
+        VALUES (@user_id, @video_id, @chunks, @language, @created_at, @last_accessed)
+        ON CONFLICT (user_id, video_id) DO UPDATE SET
+          chunks = excluded.chunks,
+          language = excluded.language,
+          created_at = excluded.created_at,
+          last_accessed = excluded.last_accessed
+      `).run({
+        user_id: s.user_id,
+        video_id: s.video_id,
+        chunks: JSON.stringify(s.chunks),
+        language: s.language,
+        created_at: s.created_at.toISOString(),
+        last_accessed: s.last_accessed.toISOString(),
+      });
+
+      // History is small (capped by config), so rewrite it as a whole
+      this.db.prepare('DELETE FROM qa_history WHERE user_id = ? AND video_id = ?').run(s.user_id, s.video_id);
+      const insertHistory = this.db.prepare(
+        'INSERT INTO qa_history (user_id, video_id, question, answer, timestamp) VALUES (?, ?, ?, ?, ?)'
+      );
+      for (const qa of s.history) {
+        insertHistory.run(s.user_id, s.video_id, qa.question, qa.answer, qa.timestamp.toISOString());
+      }
+    });
+
+    save(session);
+  }
+
+  touchSession(userId: string, videoId: string, accessedAt: Date): void {
+    this.db
+      .prepare('UPDATE video_sessions SET last_accessed = ? WHERE user_id = ? AND video_id = ?')
+      .run(accessedAt.toISOString(), userId, videoId);
+  }
+
+  setActiveSession(userId: string, videoId: string): void {
+    this.db.prepare(`
+      INSERT INTO active_sessions (user_id, video_id) VALUES (?, ?)
+      ON CONFLICT (user_id) DO UPDATE SET video_id = excluded.video_id
+    `).run(userId, videoId);
+  }
+
+  deleteSession(userId: string, videoId?: string): boolean {
+    const remove = this.db.transaction((): boolean => {
+      const key = videoId ?? (this.db
+        .prepare('SELECT video_id FROM active_sessions WHERE user_id = ?')
+        .get(userId) as { video_id: string } | undefined)?.video_id;
+
+      if (key === undefined) {
+        return false;
+      }
+
+      this.db.prepare('DELETE FROM qa_history WHERE user_id = ? AND video_id = ?').run(userId, key);
+      this.db.prepare('DELETE FROM active_sessions WHERE user_id = ? AND video_id = ?').run(userId, key);
+      const deleted = this.db
+        .prepare('DELETE FROM video_sessions WHERE user_id = ? AND video_id = ?')
+        .run(userId, key).changes > 0;
+      this.deleteUnusedTranscript(key);
+      return deleted;
+    });
+
+    return remove();
+  }
+
+  deleteSessionsAccessedBefore(cutoff: Date): string[] {
+    const expired = this.db
+      .prepare('SELECT user_id, video_id FROM video_sessions WHERE last_accessed < ?')
+      .all(cutoff.toISOString()) as { user_id: string; video_id: string }[];
+
+    for (const { user_id, video_id } of expired) {
+      this.deleteSession(user_id, video_id);
+    }
+
+    const remainingUsers = new Set(
+      (this.db.prepare('SELECT DISTINCT user_id FROM video_sessions').all() as { user_id: string }[])
+        .map((row) => row.user_id)
+    );
+
+    return [...new Set(expired.map((row) => row.user_id))]
+      .filter((userId) => !remainingUsers.has(userId));
+  }
+
+  countSessions(): number {
+    return (this.db.prepare('SELECT COUNT(*) AS count FROM video_sessions').get() as { count: number }).count;
+  }
+
+  getTranscript(videoId: string): Transcript | null {
+    const row = this.db
+      .prepare('SELECT transcript FROM transcripts WHERE video_id = ? AND cached = 1')
+      .get(videoId) as { transcript: string } | undefined;
+
+    return row ? this.parseTranscript(row.transcript) : null;
+  }
+
+  saveTranscript(videoId: string, transcript: Transcript): void {
+    // Re-caching keeps the original position in eviction order
+    this.db.prepare(`
+      INSERT INTO transcripts (video_id, transcript, cached_at, cached) VALUES (?, ?, ?, 1)
+      ON CONFLICT (video_id) DO UPDATE SET
+        transcript = excluded.transcript,
+        cached_at = CASE WHEN cached = 1 THEN cached_at ELSE excluded.cached_at END,
+        cached = 1
+    `).run(videoId, JSON.stringify(transcript), Date.now());
+  }
+
+  deleteTranscript(videoId: string): void {
+    this.db.prepare('UPDATE transcripts SET cached = 0 WHERE video_id = ?').run(videoId);
+    this.deleteUnusedTranscript(videoId);
+  }
+
+  getOldestTranscriptId(): string | null {
+    const row = this.db
+      .prepare('SELECT video_id FROM transcripts WHERE cached = 1 ORDER BY cached_at, rowid LIMIT 1')
+      .get() as { video_id: string } | undefined;
+
+    return row ? row.video_id : null;
+  }
+
+  countTranscripts(): number {
+    return (this.db.prepare('SELECT COUNT(*) AS count FROM transcripts WHERE cached = 1').get() as { count: number }).count;
+  }
+
+  getSummary(videoId: string, language: string): Summary | null {
+    const row = this.db
+      .prepare('SELECT summary FROM summaries WHERE video_id = ? AND language = ?')
+      .get(videoId, language) as { summary: string } | undefined;
+
+    return row ? JSON.parse(row.summary) : null;
+  }
+
+  saveSummary(videoId: string, language: string, summary: Summary): void {
+    this.db.prepare(`
+      INSERT INTO summaries (video_id, language, summary) VALUES (?, ?, ?)
+      ON CONFLICT (video_id, language) DO UPDATE SET summary = excluded.summary
+    `).run(videoId, language, JSON.stringify(summary));
+  }
+
+  deleteSummaries(videoId: string): void {
+    this.db.prepare('DELETE FROM summaries WHERE video_id = ?').run(videoId);
+  }
+
+  getQuotaCounter(userId: string, quota: string): QuotaCounter | null {
+    const row = this.db
+      .prepare('SELECT count, window_start FROM quota_counters WHERE user_id = ? AND quota = ?')
+      .get(userId, quota) as { count: number; window_start: string } | undefined;
+
+    return row ? { count: row.count, window_start: new Date(row.window_start) } : null;
+  }
+
+  saveQuotaCounter(userId: string, quota: string, counter: QuotaCounter): void {
+    this.db.prepare(`
+      INSERT INTO quota_counters (user_id, quota, count, window_start) VALUES (?, ?, ?, ?)
+      ON CONFLICT (user_id, quota) DO UPDATE SET count = excluded.count, window_start = excluded.window_start
+    `).run(userId, quota, counter.count, counter.window_start.toISOString());
+  }
+
+  close(): void {
+    if (this.db.open) {
+      this.db.close();
+    }
+  }
+
+  /**
+   * Removes a transcript that is neither cached nor used by a session
+   */
+  private deleteUnusedTranscript(videoId: string): void {
+    this.db.prepare(`
+      DELETE FROM transcripts
+      WHERE video_id = ? AND cached = 0 AND NOT EXISTS (SELECT 1 FROM video_sessions WHERE video_id = transcripts.video_id)
+    `).run(videoId);
+  }
+
+  private migrate(): void {
+    const version = this.db.pragma('user_version', { simple: true }) as number;
+
+    for (let i = version; i < MIGRATIONS.length; i++) {
+      this.db.transaction(() => {
+        this.db.exec(MIGRATIONS[i]);
+        this.db.pragma(`user_version = ${i + 1}`);
+      })();
+    }
+  }
+
+  private toSession(row: SessionRow): Session {
+    const history = (this.db
+      .prepare('SELECT question, answer, timestamp FROM qa_history WHERE user_id = ? AND video_id = ? ORDER BY id')
+      .all(row.user_id, row.video_id) as HistoryRow[])
+      .map((entry): QAPair => ({
+        question: entry.question,
+        answer: entry.answer,
+        timestamp: new Date(entry.timestamp),
+      }));
+
+    return {
+      user_id: row.user_id,
+      video_id: row.video_id,
+      transcript: this.parseTranscript(row.transcript),
+      chunks: JSON.parse(row.chunks),
+      history,
+      language: row.language,
+      created_at: new Date(row.created_at),
+      last_accessed: new Date(row.last_accessed),
+    };
+  }
+
+  private parseTranscript(json: string): Transcript {
+    const transcript = JSON.parse(json);
+    return { ...transcript, fetched_at: new Date(transcript.fetched_at) };
+  }
+}
@@ -0,0 +1,45 @@
+import { Session, Transcript, Summary, QuotaCounter } from '../models';
+
+/**
+ * Persistence backend for user sessions, Q&A history, cached transcripts and summaries, and quota counters
+ * A user can hold one session per video; one of them is the active session
+ * A session's transcript is kept with the video's cached transcript, and stays available
+ * after the cache evicts it
+ * Adapters are synchronous; ContextManager serializes access per user
+ */
+export interface StorageAdapter {
+  /** Session for a video, or the user's active session when no video is given */
+  getSession(userId: string, videoId?: string): Session | null;
+  /** All sessions of a user, most recently created first */
+  listSessions(userId: string): Session[];
+  saveSession(session: Session): void;
+  /** Updates only the last access time of a session */
+  touchSession(userId: string, videoId: string, accessedAt: Date): void;
+  setActiveSession(userId: string, videoId: string): void;
+  /** Removes the session for a video, or the active session when no video is given */
+  deleteSession(userId: string, videoId?: string): boolean;
+  /** Removes sessions not accessed since the cutoff and returns users left without sessions */
+  deleteSessionsAccessedBefore(cutoff: Date): string[];
+  countSessions(): number;
+
+  /** Transcript in the cache; saving a session does not add its transcript to the cache */
+  getTranscript(videoId: string): Transcript | null;
+  saveTranscript(videoId: string, transcript: Transcript): void;
+  /** Removes a transcript from the cache; sessions of the video keep it */
+  deleteTranscript(videoId: string): void;
+  /** Video ID of the transcript cached first, for eviction */
+  getOldestTranscriptId(): string | null;
+  countTranscripts(): number;
+
+  /** Cached summary of a video in a language (language code, e.g. 'hi') */
+  getSummary(videoId: string, language: string): Summary | null;
+  saveSummary(videoId: string, language: string, summary: Summary): void;
+  /** Removes the cached summaries of a video in all languages */
+  deleteSummaries(videoId: string): void;
+
+  /** Counter of a user's quota (e.g. 'videos'), or null before its first use */
+  getQuotaCounter(userId: string, quota: string): QuotaCounter | null;
+  saveQuotaCounter(userId: string, quota: string, counter: QuotaCounter): void;
+
+  close(): void;
+}
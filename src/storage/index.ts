@@ -0,0 +1,20 @@
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { StorageAdapter } from './StorageAdapter';
+import { MemoryStorage } from './MemoryStorage';
+import { SqliteStorage } from './SqliteStorage';
+
+export { StorageAdapter, MemoryStorage, SqliteStorage };
+
+/**
+ * Get the storage backend selected in config
+ * Defaults to in-memory storage
+ */
+export function getStorage(): StorageAdapter {
+  if (config.storage.backend === 'sqlite') {
+    logger.info('Using SQLite storage', { path: config.storage.sqlitePath });
+    return new SqliteStorage(config.storage.sqlitePath);
+  }
+
+  return new MemoryStorage();
+}
@@ -1,53 +1,100 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
 import OpenAI from 'openai';
 import { GoogleGenerativeAI } from '@google/generative-ai';
 import { config } from '../config';
 import { logger } from './logger';
+import { CircuitBreaker } from './circuitBreaker';
+
+export interface AIUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  model: string;
+  latency_ms: number;
+}
 
 export interface AIResponse {
   content: string;
+  usage?: AIUsage; // not reported by every provider or fixture
+}
+
+/**
+ * Kinds of requests the bot makes; each can be routed to its own provider and model
+ */
+export type AITask = 'summary' | 'chunk_summary' | 'qa' | 'translation' | 'action_points';
+
+export const AI_TASKS: AITask[] = ['summary', 'chunk_summary', 'qa', 'translation', 'action_points'];
+
+export interface CompletionOptions {
+  task?: AITask;
+  signal?: AbortSignal; // aborts the request, e.g. when it takes too long
+}
+
+export interface ProviderStatus {
+  name: string;
+  available: boolean; // false while marked down after repeated failures
 }
 
 export interface AIProvider {
-  generateCompletion(systemPrompt: string, userPrompt: string, temperature?: number): Promise<AIResponse>;
+  generateCompletion(
+    systemPrompt: string,
+    userPrompt: string,
+    temperature?: number,
+    options?: CompletionOptions
+  ): Promise<AIResponse>;
+  /** State of the providers behind failover, for readiness checks */
+  getStatus?(): ProviderStatus[];
 }
 
 class OpenAIProvider implements AIProvider {
   private client: OpenAI;
 
-  constructor(apiKey: string) {
+  constructor(apiKey: string, private model: string = config.openai.model) {
     this.client = new OpenAI({ apiKey });
   }
 
-  async generateCompletion(systemPrompt: string, userPrompt: string, temperature: number = 0.3): Promise<AIResponse> {
+  async generateCompletion(
+    systemPrompt: string,
+    userPrompt: string,
+    temperature: number = 0.3,
+    options?: CompletionOptions
+  ): Promise<AIResponse> {
+    const startedAt = Date.now();
     const response = await this.client.chat.completions.create({
-      model: config.openai.model,
+      model: this.model,
       messages: [
         { role: 'system', content: systemPrompt },
         { role: 'user', content: userPrompt },
       ],
       temperature,
       response_format: { type: 'json_object' },
-    });
+    }, { signal: options?.signal });
 
     const content = response.choices[0].message.content;
     if (!content) {
       throw new Error('Empty response from OpenAI');
     }
 
-    return { content };
+    return { content, usage: openAIUsage(response, this.model, startedAt) };
   }
 }
 
 class GeminiProvider implements AIProvider {
   private client: GoogleGenerativeAI;
 
-  constructor(apiKey: string) {
+  constructor(apiKey: string, private model: string = config.gemini.model) {
     this.client = new GoogleGenerativeAI(apiKey);
   }
 
-  async generateCompletion(systemPrompt: string, userPrompt: string, temperature: number = 0.3): Promise<AIResponse> {
+  async generateCompletion(
+    systemPrompt: string,
+    userPrompt: string,
+    temperature: number = 0.3,
+    options?: CompletionOptions
+  ): Promise<AIResponse> {
     const model = this.client.getGenerativeModel({ 
-      model: config.gemini.model,
+      model: this.model,
       generationConfig: {
         temperature,
         responseMimeType: 'application/json',
@@ -55,7 +102,8 @@ class GeminiProvider implements AIProvider {
     });
 
     const fullPrompt = `${systemPrompt}\n\n${userPrompt}`;
-    const result = await model.generateContent(fullPrompt);
+    const startedAt = Date.now();
+    const result = await model.generateContent(fullPrompt, { signal: options?.signal });
     const response = result.response;
     const content = response.text();
 
@@ -63,26 +111,490 @@ class GeminiProvider implements AIProvider {
       throw new Error('Empty response from Gemini');
     }
 
-    return { content };
+    return {
+      content,
+      usage: {
+        prompt_tokens: response.usageMetadata?.promptTokenCount || 0,
+        completion_tokens: response.usageMetadata?.candidatesTokenCount || 0,
+        model: this.model,
+        latency_ms: Date.now() - startedAt,
+      },
+    };
   }
 }
 
+/**
+ * Usage of a chat completion from an OpenAI-compatible API
+ * Servers that do not report token counts are recorded with zero tokens
+ */
+function openAIUsage(response: OpenAI.Chat.ChatCompletion, model: string, startedAt: number): AIUsage {
+  return {
+    prompt_tokens: response.usage?.prompt_tokens || 0,
+    completion_tokens: response.usage?.completion_tokens || 0,
+    model: response.model || model,
+    latency_ms: Date.now() - startedAt,
+  };
+}
+
+export interface NamedProvider {
+  name: string;
+  provider: AIProvider;
+}
+
+export interface FailoverOptions {
+  timeoutMs: number; // per attempt
+  failureThreshold: number; // consecutive failures before a provider is marked down
+  cooldownMs: number; // how long a provider stays marked down
+}
+
+export class AIProviderTimeoutError extends Error {
+  public code = 'TIMEOUT';
+
+  constructor(provider: string, timeoutMs: number) {
+    super(`${provider} did not respond within ${timeoutMs} ms`);
+    this.name = 'AIProviderTimeoutError';
+  }
+}
+
+/**
+ * Checks whether an error is worth retrying with another provider:
+ * rate limits, timeouts, connection failures and 5xx responses
+ * Request errors such as an oversized prompt would fail everywhere and are not
+ */
+export function isFailoverError(error: any): boolean {
+  const status = Number(error?.status);
+  if (status === 429 || status >= 500) {
+    return true;
+  }
+
+  if (['rate_limit_exceeded', 'TIMEOUT', 'ETIMEDOUT', 'ECONNRESET', 'ECONNREFUSED'].includes(error?.code)) {
+    return true;
+  }
+
+  // Connection and timeout errors of the OpenAI SDK carry no status
+  return /Connection|Timeout/.test(error?.name || '');
+}
+
+/**
+ * Tries providers in order and fails over to the next one on transient errors
+ * A provider that keeps failing is skipped until its cooldown has passed, and then takes
+ * one probe request at a time until it answers again. Requests that time out are aborted
+ */
+export class FailoverProvider implements AIProvider {
+  private breakers: Map<string, CircuitBreaker>;
+
+  constructor(private providers: NamedProvider[], private options: FailoverOptions) {
+    this.breakers = new Map(
+      providers.map(({ name }) => [name, new CircuitBreaker(options.failureThreshold, options.cooldownMs)])
+    );
+  }
+
+  async generateCompletion(
+    systemPrompt: string,
+    userPrompt: string,
+    temperature?: number,
+    options?: CompletionOptions
+  ): Promise<AIResponse> {
+    let lastError: unknown;
+
+    for (const { name, provider } of this.getCandidates()) {
+      const breaker = this.breakers.get(name)!;
+      if (!breaker.tryAcquire()) {
+        // Another request is probing the provider after its cooldown
+        continue;
+      }
+
+      try {
+        const response = await this.withTimeout(name, (signal) =>
+          provider.generateCompletion(systemPrompt, userPrompt, temperature, { ...options, signal })
+        );
+        breaker.recordSuccess();
+        return response;
+      } catch (error: any) {
+        if (!isFailoverError(error)) {
+          // The provider answered, so it is up
+          breaker.recordSuccess();
+          throw error;
+        }
+
+        breaker.recordFailure();
+        lastError = error;
+        logger.warning('AI provider failed, trying the next one', {
+          provider: name,
+          error: error?.message,
+          markedDown: breaker.isOpen(),
+        });
+      }
+    }
+
+    throw lastError ?? new Error('All AI providers are marked down');
+  }
+
+  getStatus(): ProviderStatus[] {
+    return this.providers.map(({ name }) => ({ name, available: !this.breakers.get(name)!.isOpen() }));
+  }
+
+  /**
+   * Providers that are not marked down, in configured order
+   * When all are down, the one closest to the end of its cooldown is tried anyway
+   */
+  private getCandidates(): NamedProvider[] {
+    const available = this.providers.filter(({ name }) => !this.breakers.get(name)!.isOpen());
+    if (available.length > 0) {
+      return available;
+    }
+
+    const soonest = [...this.providers].sort(
+      (a, b) => this.breakers.get(a.name)!.remainingCooldown() - this.breakers.get(b.name)!.remainingCooldown()
+    )[0];
+    logger.warning('All AI providers are marked down, retrying one', { provider: soonest.name });
+    return [soonest];
+  }
+
+  /**
+   * Runs a request that is aborted when it takes longer than the timeout
+   */
+  private async withTimeout<T>(name: string, request: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new AIProviderTimeoutError(name, this.options.timeoutMs));
+      }, this.options.timeoutMs);
+    });
+
+    try {
+      return await Promise.race([request(controller.signal), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+export interface AIFixture {
+  fingerprint?: string; // recorded fixtures: exact prompt fingerprint
+  match?: string; // scripted fixtures: text the user prompt must contain
+  system_prompt?: string;
+  user_prompt?: string;
+  temperature?: number;
+  response: AIResponse;
+}
+
+export class MissingFixtureError extends Error {
+  public code = 'MISSING_FIXTURE';
+
+  constructor(public fingerprint: string, userPrompt: string) {
+    super(`No AI fixture for prompt ${fingerprint}: "${userPrompt.slice(0, 80)}..."`);
+    this.name = 'MissingFixtureError';
+  }
+}
+
+/**
+ * Deterministic provider that replays responses from fixture files
+ * Recorded fixtures are named after the prompt fingerprint, so a changed prompt
+ * shows up as a new fixture file; hand-written fixtures can instead give a
+ * "match" text and answer any prompt containing it
+ * In record mode, misses are sent to the wrapped provider and saved as fixtures
+ */
+export class ScriptedProvider implements AIProvider {
+  private scripted: AIFixture[];
+
+  /**
+   * @param fixtureDir - Directory with one JSON fixture per file
+   * @param recordFrom - Real provider to record from; replay only when omitted
+   */
+  constructor(private fixtureDir: string, private recordFrom?: AIProvider) {
+    this.scripted = this.loadScriptedFixtures();
+  }
+
+  /**
+   * Stable key for a request; identical prompts always map to the same fixture
+   */
+  static fingerprint(systemPrompt: string, userPrompt: string, temperature: number = 0.3): string {
+    return crypto
+      .createHash('sha256')
+      .update(JSON.stringify([systemPrompt, userPrompt, temperature]))
+      .digest('hex')
+      .slice(0, 16);
+  }
+
+  async generateCompletion(
+    systemPrompt: string,
+    userPrompt: string,
+    temperature: number = 0.3,
+    options?: CompletionOptions
+  ): Promise<AIResponse> {
+    const fingerprint = ScriptedProvider.fingerprint(systemPrompt, userPrompt, temperature);
+    const filePath = path.join(this.fixtureDir, `${fingerprint}.json`);
+
+    if (fs.existsSync(filePath)) {
+      const fixture: AIFixture = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      return fixture.response;
+    }
+
+    const scripted = this.scripted.find((fixture) => userPrompt.includes(fixture.match!));
+    if (scripted) {
+      return scripted.response;
+    }
+
+    if (!this.recordFrom) {
+      throw new MissingFixtureError(fingerprint, userPrompt);
+    }
+
+    const response = await this.recordFrom.generateCompletion(systemPrompt, userPrompt, temperature, options);
+    const fixture: AIFixture = {
+      fingerprint,
+      system_prompt: systemPrompt,
+      user_prompt: userPrompt,
+      temperature,
+      response: { content: response.content },
+    };
+
+    fs.mkdirSync(this.fixtureDir, { recursive: true });
+    fs.writeFileSync(filePath, `${JSON.stringify(fixture, null, 2)}\n`);
+    logger.info('AI response recorded', { fingerprint });
+
+    return response;
+  }
+
+  getStatus(): ProviderStatus[] {
+    return this.recordFrom?.getStatus?.() || [];
+  }
+
+  /**
+   * Loads hand-written fixtures, in file name order so the first match is predictable
+   */
+  private loadScriptedFixtures(): AIFixture[] {
+    if (!fs.existsSync(this.fixtureDir)) {
+      return [];
+    }
+
+    return fs.readdirSync(this.fixtureDir)
+      .filter((file) => file.endsWith('.json'))
+      .sort()
+      .map((file) => JSON.parse(fs.readFileSync(path.join(this.fixtureDir, file), 'utf8')) as AIFixture)
+      .filter((fixture) => typeof fixture.match === 'string' && fixture.match.length > 0);
+  }
+}
+
+/**
+ * Pulls the JSON value out of a reply from a model that was only asked for JSON
+ * Drops reasoning blocks and Markdown code fences; text without JSON is returned unchanged
+ */
+export function extractJson(content: string): string {
+  const text = content.replace(/<think>[\s\S]*?<\/think>/g, '').trim();
+
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  if (fenced) {
+    return fenced[1].trim();
+  }
+
+  const start = text.search(/[{[]/);
+  if (start === -1) {
+    return text;
+  }
+
+  const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+  return end > start ? text.slice(start, end + 1) : text;
+}
+
+/**
+ * Self-hosted model behind an OpenAI-compatible API (llama.cpp server, Ollama, vLLM)
+ * Transcripts never leave the machine running the model
+ */
+export class LocalProvider implements AIProvider {
+  private client: OpenAI;
+
+  /**
+   * @param baseUrl - API root, e.g. http://localhost:11434/v1
+   * @param model - Model name as known to the server
+   * @param jsonMode - 'native' sends response_format; 'prompt' asks for JSON in the prompt
+   *                   and extracts it from the reply, for servers or models without JSON mode
+   * @param apiKey - Only needed when the server checks one
+   */
+  constructor(
+    baseUrl: string,
+    private model: string,
+    private jsonMode: 'native' | 'prompt',
+    apiKey: string = 'local'
+  ) {
+    this.client = new OpenAI({ baseURL: baseUrl, apiKey });
+  }
+
+  async generateCompletion(
+    systemPrompt: string,
+    userPrompt: string,
+    temperature: number = 0.3,
+    options?: CompletionOptions
+  ): Promise<AIResponse> {
+    const native = this.jsonMode === 'native';
+    const startedAt = Date.now();
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages: [
+        {
+          role: 'system',
+          content: native
+            ? systemPrompt
+            : `${systemPrompt}\n\nReply with a single valid JSON value only, without explanations or Markdown.`,
+        },
+        { role: 'user', content: userPrompt },
+      ],
+      temperature,
+      ...(native && { response_format: { type: 'json_object' as const } }),
+    }, { signal: options?.signal });
+
+    const content = response.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error('Empty response from local model');
+    }
+
+    return {
+      content: native ? content : extractJson(content),
+      usage: openAIUsage(response, this.model, startedAt),
+    };
+  }
+}
+
+/**
+ * Sends each request to the provider configured for its task
+ * Requests without a task, or for tasks without a route, use the default provider
+ */
+export class TaskRouter implements AIProvider {
+  constructor(
+    private defaultProvider: AIProvider,
+    private routes: Partial<Record<AITask, AIProvider>>
+  ) {}
+
+  async generateCompletion(
+    systemPrompt: string,
+    userPrompt: string,
+    temperature?: number,
+    options?: CompletionOptions
+  ): Promise<AIResponse> {
+    const provider = (options?.task && this.routes[options.task]) || this.defaultProvider;
+    return provider.generateCompletion(systemPrompt, userPrompt, temperature, options);
+  }
+
+  getStatus(): ProviderStatus[] {
+    return [this.defaultProvider, ...Object.values(this.routes)]
+      .flatMap((provider) => provider.getStatus?.() || []);
+  }
+}
+
+/**
+ * Splits a task route of the form "provider" or "provider:model"
+ * Only the first colon separates, as model names may contain colons (e.g. "llama3.1:8b")
+ */
+export function parseRoute(route: string): { provider: string; model?: string } {
+  const separator = route.indexOf(':');
+  if (separator === -1) {
+    return { provider: route.trim().toLowerCase() };
+  }
+
+  const model = route.slice(separator + 1).trim();
+  return {
+    provider: route.slice(0, separator).trim().toLowerCase(),
+    ...(model && { model }),
+  };
+}
+
+/**
+ * Creates a provider by name if its API key (or local endpoint) is configured
+ * @param model - Model to use instead of the provider's default one
+ */
+function createProvider(name: string, model?: string): AIProvider | null {
+  if (name === 'openai' && config.openai.apiKey) {
+    return new OpenAIProvider(config.openai.apiKey, model || config.openai.model);
+  }
+
+  if (name === 'gemini' && config.gemini.apiKey) {
+    return new GeminiProvider(config.gemini.apiKey, model || config.gemini.model);
+  }
+
+  if (name === 'local' && config.local.baseUrl) {
+    return new LocalProvider(config.local.baseUrl, model || config.local.model, config.local.jsonMode, config.local.apiKey);
+  }
+
+  return null;
+}
+
 /**
  * Get AI provider with fallback support
- * Tries OpenAI first, falls back to Gemini if OpenAI is not available
+ * Uses the configured providers that have an API key, in configured order;
+ * with more than one, requests fail over between them at runtime
+ * SCRIPTED_AI_MODE=replay answers from fixture files instead, and =record saves real responses to them
  */
 export function getAIProvider(): AIProvider {
-  // Try OpenAI first
-  if (config.openai.apiKey) {
-    logger.info('Using OpenAI as AI provider');
-    return new OpenAIProvider(config.openai.apiKey);
+  if (config.scripted.mode === 'replay') {
+    logger.info('Using scripted AI responses', { fixtureDir: config.scripted.fixtureDir });
+    return new ScriptedProvider(config.scripted.fixtureDir);
+  }
+
+  const provider = getLiveProvider();
+
+  if (config.scripted.mode === 'record') {
+    logger.info('Recording AI responses', { fixtureDir: config.scripted.fixtureDir });
+    return new ScriptedProvider(config.scripted.fixtureDir, provider);
+  }
+
+  return provider;
+}
+
+/**
+ * Builds the provider for real requests from the configured API keys and endpoints,
+ * routing tasks with their own provider or model to it first
+ */
+function getLiveProvider(): AIProvider {
+  const providers: NamedProvider[] = [];
+
+  for (const name of config.ai.providers) {
+    const provider = createProvider(name);
+    if (provider) {
+      providers.push({ name, provider });
+    }
+  }
+
+  if (providers.length === 0) {
+    throw new Error('No AI provider configured. Please set OPENAI_API_KEY, GEMINI_API_KEY or LOCAL_LLM_BASE_URL');
   }
 
-  // Fallback to Gemini
-  if (config.gemini.apiKey) {
-    logger.info('Using Gemini as AI provider (OpenAI not available)');
-    return new GeminiProvider(config.gemini.apiKey);
+  logger.info('Using AI providers', { providers: providers.map(({ name }) => name) });
+  const defaultProvider = withFailover(providers);
+
+  const routes: Partial<Record<AITask, AIProvider>> = {};
+  for (const task of AI_TASKS) {
+    const route = config.ai.routes[task];
+    if (!route) {
+      continue;
+    }
+
+    const { provider: name, model } = parseRoute(route);
+    const routed = createProvider(name, model);
+    if (!routed) {
+      logger.warning('Ignoring task route to a provider without credentials', { task, route });
+      continue;
+    }
+
+    // The other providers stay behind the routed one as failover
+    routes[task] = withFailover([
+      { name: route, provider: routed },
+      ...providers.filter((provider) => provider.name !== name),
+    ]);
+    logger.info('AI task routed', { task, route });
   }
 
-  throw new Error('No AI provider configured. Please set OPENAI_API_KEY or GEMINI_API_KEY');
+  return Object.keys(routes).length > 0 ? new TaskRouter(defaultProvider, routes) : defaultProvider;
+}
+
+/**
+ * Wraps providers in failover; a single provider still gets the timeout and circuit breaker
+ */
+function withFailover(providers: NamedProvider[]): AIProvider {
+  return new FailoverProvider(providers, {
+    timeoutMs: config.ai.timeoutMs,
+    failureThreshold: config.ai.failureThreshold,
+    cooldownMs: config.ai.cooldownSeconds * 1000,
+  });
 }
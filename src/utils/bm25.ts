@@ -0,0 +1,125 @@
+// BM25 ranking over a fixed set of documents
+import { stem } from './stemmer';
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'is', 'are', 'was', 'were', 'be', 'been', 'being',
+  'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would', 'could',
+  'should', 'may', 'might', 'can', 'in', 'on', 'at', 'to', 'for', 'of',
+  'with', 'by', 'from', 'about', 'what', 'when', 'where', 'who', 'how',
+  'why', 'which', 'this', 'that', 'these', 'those', 'i', 'you', 'he',
+  'she', 'it', 'we', 'they', 'me', 'him', 'her', 'us', 'them',
+  'and', 'or', 'but', 'not', 'so', 'if', 'then', 'than', 'there',
+  'their', 'his', 'its', 'our', 'your', 'my', 'also', 'just', 'very',
+]);
+
+export interface BM25Options {
+  k1: number; // term frequency saturation
+  b: number; // document length normalization
+}
+
+export interface SearchResult {
+  index: number; // position of the document in the indexed list
+  score: number;
+}
+
+/**
+ * Splits text into lowercase, stemmed terms without stop words
+ * Letters of any script are kept; only English words are stemmed
+ * @param text - Text to tokenize
+ * @returns Array of terms in text order
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter((word) => word.length > 1 && !STOP_WORDS.has(word))
+    .map(stem);
+}
+
+export class BM25Index {
+  private termFrequencies: Map<string, number>[];
+  private documentFrequencies: Map<string, number>;
+  private documentLengths: number[];
+  private averageLength: number;
+
+  /**
+   * Builds the index once; searching does not touch the documents again
+   * @param documents - Document texts to index
+   * @param options - BM25 tuning parameters
+   */
+  constructor(documents: string[], private options: BM25Options = { k1: 1.2, b: 0.75 }) {
+    this.termFrequencies = [];
+    this.documentFrequencies = new Map();
+    this.documentLengths = [];
+
+    for (const document of documents) {
+      const terms = tokenize(document);
+      const frequencies = new Map<string, number>();
+
+      for (const term of terms) {
+        frequencies.set(term, (frequencies.get(term) || 0) + 1);
+      }
+
+      for (const term of frequencies.keys()) {
+        this.documentFrequencies.set(term, (this.documentFrequencies.get(term) || 0) + 1);
+      }
+
+      this.termFrequencies.push(frequencies);
+      this.documentLengths.push(terms.length);
+    }
+
+    const totalLength = this.documentLengths.reduce((sum, length) => sum + length, 0);
+    this.averageLength = documents.length > 0 ? totalLength / documents.length : 0;
+  }
+
+  get size(): number {
+    return this.documentLengths.length;
+  }
+
+  /**
+   * Ranks documents against a query
+   * @param query - Free-text query
+   * @param limit - Maximum number of results
+   * @returns Documents with a positive score, best first
+   */
+  search(query: string, limit: number = this.size): SearchResult[] {
+    const queryTerms = [...new Set(tokenize(query))];
+    if (queryTerms.length === 0) {
+      return [];
+    }
+
+    const { k1, b } = this.options;
+    const results: SearchResult[] = [];
+
+    this.termFrequencies.forEach((frequencies, index) => {
+      const lengthRatio = this.averageLength > 0 ? this.documentLengths[index] / this.averageLength : 0;
+      let score = 0;
+
+      for (const term of queryTerms) {
+        const tf = frequencies.get(term);
+        if (!tf) {
+          continue;
+        }
+
+        score += this.idf(term) * (tf * (k1 + 1)) / (tf + k1 * (1 - b + b * lengthRatio));
+      }
+
+      if (score > 0) {
+        results.push({ index, score });
+      }
+    });
+
+    // Stable order for equal scores: earlier documents first
+    results.sort((x, y) => y.score - x.score || x.index - y.index);
+    return results.slice(0, limit);
+  }
+
+  /**
+   * Inverse document frequency, kept positive for terms found in most documents
+   */
+  private idf(term: string): number {
+    const df = this.documentFrequencies.get(term) || 0;
+    return Math.log(1 + (this.size - df + 0.5) / (df + 0.5));
+  }
+}
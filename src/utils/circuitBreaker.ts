@@ -0,0 +1,75 @@
+// Circuit breaker for calls to unreliable services
+
+/**
+ * Opens after repeated failures; once the cooldown has passed, one probe call at a time
+ * is let through until a call succeeds (closing it) or fails (opening it again)
+ */
+export class CircuitBreaker {
+  private consecutiveFailures: number;
+  private openUntil: number;
+  private probing: boolean;
+
+  /**
+   * @param failureThreshold - Consecutive failures after which the circuit opens
+   * @param cooldownMs - How long an open circuit rejects calls before allowing a retry
+   * @param now - Clock, replaceable in tests
+   */
+  constructor(
+    private failureThreshold: number,
+    private cooldownMs: number,
+    private now: () => number = Date.now
+  ) {
+    this.consecutiveFailures = 0;
+    this.openUntil = 0;
+    this.probing = false;
+  }
+
+  /**
+   * Whether calls should be skipped: during the cooldown and while a probe call is pending
+   */
+  isOpen(): boolean {
+    return this.now() < this.openUntil || this.probing;
+  }
+
+  /**
+   * Claims a call; after failures, the call becomes the probe and others are refused until
+   * it is recorded as a success or failure
+   * @returns false while another probe call is pending
+   */
+  tryAcquire(): boolean {
+    if (this.probing) {
+      return false;
+    }
+
+    if (this.consecutiveFailures >= this.failureThreshold) {
+      this.probing = true;
+    }
+    return true;
+  }
+
+  /**
+   * Milliseconds until the circuit lets calls through again
+   */
+  remainingCooldown(): number {
+    return Math.max(0, this.openUntil - this.now());
+  }
+
+  recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.openUntil = 0;
+    this.probing = false;
+  }
+
+  /**
+   * Counts a failure and opens the circuit once the threshold is reached
+   * A failed probe after the cooldown opens it again straight away
+   */
+  recordFailure(): void {
+    this.consecutiveFailures++;
+    this.probing = false;
+
+    if (this.consecutiveFailures >= this.failureThreshold) {
+      this.openUntil = this.now() + this.cooldownMs;
+    }
+  }
+}
@@ -0,0 +1,150 @@
+import { config } from '../config';
+import { logger } from './logger';
+import { tokenize } from './bm25';
+
+export interface Embedder {
+  embedDocuments(texts: string[]): Promise<number[][]>;
+  embedQuery(text: string): Promise<number[]>;
+}
+
+/**
+ * Deterministic embedder based on feature hashing of terms and character trigrams
+ * Needs no model or network, so it suits tests and offline deployments
+ */
+export class HashingEmbedder implements Embedder {
+  constructor(private dimensions: number = config.embedding.dimensions) {}
+
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embed(text));
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    return this.embed(text);
+  }
+
+  private embed(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+
+    for (const term of tokenize(text)) {
+      this.addFeature(vector, `t:${term}`, 1);
+
+      // Trigrams let related word forms and typos share features
+      const padded = `#${term}#`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        this.addFeature(vector, `g:${padded.slice(i, i + 3)}`, 0.5);
+      }
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map((value) => value / norm) : vector;
+  }
+
+  private addFeature(vector: number[], feature: string, weight: number): void {
+    const hash = this.hash(feature);
+    const sign = hash & 1 ? 1 : -1;
+    vector[(hash >>> 1) % this.dimensions] += sign * weight;
+  }
+
+  /**
+   * 32-bit FNV-1a hash
+   */
+  private hash(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
+
+/**
+ * Loads the optional @xenova/transformers package
+ */
+function importTransformers(): Promise<any> {
+  // The package is ESM-only; keep the import from being compiled to require()
+  const importModule = new Function('specifier', 'return import(specifier)');
+  return importModule('@xenova/transformers');
+}
+
+/**
+ * Sentence embeddings from a small transformer model running on the CPU
+ * Unlike the hashing embedder, a multilingual model matches synonyms and questions in
+ * another language than the transcript. Requires the optional @xenova/transformers package;
+ * set EMBEDDING_MODEL_PATH to a directory with the downloaded model to run without network access
+ */
+export class LocalModelEmbedder implements Embedder {
+  private extractor: Promise<any> | null = null;
+
+  /**
+   * @param loadTransformers - Loads the transformers package, replaceable in tests
+   */
+  constructor(
+    private model: string,
+    private modelPath: string = '',
+    private loadTransformers: () => Promise<any> = importTransformers
+  ) {}
+
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    return this.run(texts.map((text) => this.withPrefix('passage', text)));
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    const [vector] = await this.run([this.withPrefix('query', text)]);
+    return vector;
+  }
+
+  private async run(texts: string[]): Promise<number[][]> {
+    const extractor = await this.getExtractor();
+    const output = await extractor(texts, { pooling: 'mean', normalize: true });
+    return output.tolist();
+  }
+
+  /**
+   * E5 models expect their input to be marked as query or passage
+   */
+  private withPrefix(kind: 'query' | 'passage', text: string): string {
+    return /e5/i.test(this.model) ? `${kind}: ${text}` : text;
+  }
+
+  private getExtractor(): Promise<any> {
+    if (!this.extractor) {
+      this.extractor = this.loadExtractor();
+      // Allow a later retry if loading failed
+      this.extractor.catch(() => {
+        this.extractor = null;
+      });
+    }
+    return this.extractor;
+  }
+
+  private async loadExtractor(): Promise<any> {
+    let transformers: any;
+    try {
+      transformers = await this.loadTransformers();
+    } catch (error) {
+      throw new Error('Local embedding model requires the @xenova/transformers package. Install it with: npm install @xenova/transformers');
+    }
+
+    if (this.modelPath) {
+      transformers.env.localModelPath = this.modelPath;
+      transformers.env.allowRemoteModels = false;
+    }
+
+    logger.info('Loading local embedding model', { model: this.model, modelPath: this.modelPath || undefined });
+    return transformers.pipeline('feature-extraction', this.model, { quantized: true });
+  }
+}
+
+/**
+ * Get the embedder configured for semantic retrieval
+ */
+export function getEmbedder(): Embedder {
+  if (config.embedding.provider === 'local') {
+    logger.info('Using local model for embeddings', { model: config.embedding.model });
+    return new LocalModelEmbedder(config.embedding.model, config.embedding.modelPath);
+  }
+
+  logger.info('Using hashing embedder for embeddings');
+  return new HashingEmbedder();
+}
@@ -0,0 +1,172 @@
+// Minimal HTTP server for webhook updates and operational endpoints
+import crypto from 'crypto';
+import http from 'http';
+import { logger } from './logger';
+
+export interface HttpRequest {
+  method: string;
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+export interface HttpResponse {
+  status: number;
+  body?: string;
+  contentType?: string;
+}
+
+export type RouteHandler = (request: HttpRequest) => HttpResponse | Promise<HttpResponse>;
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/**
+ * Routes requests by method and exact path; anything else gets a 404
+ */
+export class HttpServer {
+  private routes: Map<string, RouteHandler>; // "METHOD /path" -> handler
+  private server: http.Server;
+
+  constructor() {
+    this.routes = new Map();
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        logger.error('HTTP request failed', error, { method: req.method, url: req.url });
+        if (!res.headersSent) {
+          res.writeHead(500, { 'Content-Type': 'text/plain' });
+        }
+        res.end('Internal Server Error');
+      });
+    });
+  }
+
+  route(method: string, path: string, handler: RouteHandler): this {
+    this.routes.set(`${method.toUpperCase()} ${path}`, handler);
+    return this;
+  }
+
+  /**
+   * @param port - Port to listen on; 0 picks a free one
+   * @returns The port the server listens on
+   */
+  listen(port: number, host: string = '0.0.0.0'): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(port, host, () => {
+        this.server.off('error', reject);
+        resolve((this.server.address() as { port: number }).port);
+      });
+    });
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve) => {
+      if (!this.server.listening) {
+        resolve();
+        return;
+      }
+      this.server.close(() => resolve());
+    });
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const method = (req.method || 'GET').toUpperCase();
+    const path = new URL(req.url || '/', 'http://localhost').pathname;
+    const handler = this.routes.get(`${method} ${path}`);
+
+    if (!handler) {
+      res.writeHead(404, { 'Content-Type': 'text/plain' });
+      res.end('Not Found');
+      return;
+    }
+
+    const body = await this.readBody(req);
+    if (body === null) {
+      res.writeHead(413, { 'Content-Type': 'text/plain' });
+      res.end('Payload Too Large');
+      return;
+    }
+
+    const response = await handler({ method, path, headers: req.headers, body });
+    res.writeHead(response.status, { 'Content-Type': response.contentType || 'text/plain' });
+    res.end(response.body || '');
+  }
+
+  /**
+   * @returns The request body, or null when it exceeds the size limit
+   */
+  private readBody(req: http.IncomingMessage): Promise<string | null> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+
+      // An oversized body is still read to the end so the client gets the response
+      req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size <= MAX_BODY_BYTES) {
+          chunks.push(chunk);
+        }
+      });
+      req.on('end', () => resolve(size > MAX_BODY_BYTES ? null : Buffer.concat(chunks).toString('utf8')));
+      req.on('error', reject);
+    });
+  }
+}
+
+/**
+ * Runs named readiness checks; each throws when its dependency is not usable
+ * Answers 200 when all pass and 503 otherwise, with the result of every check as JSON
+ */
+export function createReadinessHandler(checks: Record<string, () => void>): RouteHandler {
+  return () => {
+    const results: Record<string, string> = {};
+    let ready = true;
+
+    for (const [name, check] of Object.entries(checks)) {
+      try {
+        check();
+        results[name] = 'ok';
+      } catch (error: any) {
+        results[name] = error?.message || 'failed';
+        ready = false;
+      }
+    }
+
+    return {
+      status: ready ? 200 : 503,
+      contentType: 'application/json',
+      body: JSON.stringify({ status: ready ? 'ready' : 'not ready', checks: results }),
+    };
+  };
+}
+
+/**
+ * Accepts Telegram webhook updates that carry the configured secret token
+ * Updates are handed over without waiting for them to be processed, so Telegram
+ * does not retry (and duplicate) updates that take long to answer
+ * @param secretToken - Value Telegram sends in the X-Telegram-Bot-Api-Secret-Token header
+ * @param onUpdate - Receives each parsed update
+ */
+export function createWebhookHandler(secretToken: string, onUpdate: (update: any) => void): RouteHandler {
+  const expected = Buffer.from(secretToken);
+
+  return ({ headers, body }) => {
+    const header = headers['x-telegram-bot-api-secret-token'];
+    const received = Buffer.from(typeof header === 'string' ? header : '');
+
+    if (received.length !== expected.length || !crypto.timingSafeEqual(received, expected)) {
+      logger.warning('Webhook request with invalid secret token rejected');
+      return { status: 401, body: 'Unauthorized' };
+    }
+
+    let update: any;
+    try {
+      update = JSON.parse(body);
+    } catch (error) {
+      return { status: 400, body: 'Invalid JSON' };
+    }
+
+    onUpdate(update);
+    return { status: 200, body: 'OK' };
+  };
+}
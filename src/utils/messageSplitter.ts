@@ -0,0 +1,119 @@
+// Splitting of long replies into messages that fit a transport's length limit
+
+export const TELEGRAM_MESSAGE_LIMIT = 4096;
+
+interface Piece {
+  text: string;
+  separator: string; // joins the piece to the one before it
+}
+
+// Start of a list item: "1. ", "2) ", "• " or "- "
+const LIST_ITEM = /^\s*(\d+[.)]|[•\-*])\s/;
+
+/**
+ * Splits text into parts no longer than the limit
+ * Breaks between paragraphs where possible, then between lines; a list item stays in
+ * one part together with its indented continuation lines, so numbered lists read
+ * correctly across parts. Only lines longer than the limit are broken between words
+ * @param text - Text to split
+ * @param limit - Maximum length of a part in UTF-16 code units, as Telegram counts them
+ * @returns Parts in order; a single part when the text fits
+ */
+export function splitMessage(text: string, limit: number = TELEGRAM_MESSAGE_LIMIT): string[] {
+  if (text.length <= limit) {
+    return [text];
+  }
+
+  const pieces: Piece[] = [];
+  text.split(/\n{2,}/).forEach((paragraph, index) => {
+    const separator = index === 0 ? '' : '\n\n';
+    if (paragraph.length <= limit) {
+      pieces.push({ text: paragraph, separator });
+      return;
+    }
+
+    groupListItems(paragraph.split('\n')).forEach((item, itemIndex) => {
+      const itemSeparator = itemIndex === 0 ? separator : '\n';
+      if (item.length <= limit) {
+        pieces.push({ text: item, separator: itemSeparator });
+        return;
+      }
+
+      item.split('\n').forEach((line, lineIndex) => {
+        const lineSeparator = lineIndex === 0 ? itemSeparator : '\n';
+        splitLine(line, limit).forEach((chunk, chunkIndex) => {
+          pieces.push({ text: chunk, separator: chunkIndex === 0 ? lineSeparator : ' ' });
+        });
+      });
+    });
+  });
+
+  const parts: string[] = [];
+  let current = '';
+  for (const piece of pieces) {
+    if (current && current.length + piece.separator.length + piece.text.length > limit) {
+      parts.push(current);
+      current = piece.text;
+    } else {
+      current = current ? current + piece.separator + piece.text : piece.text;
+    }
+  }
+  if (current) {
+    parts.push(current);
+  }
+
+  return parts;
+}
+
+/**
+ * Joins each list item with the indented lines that follow it
+ */
+function groupListItems(lines: string[]): string[] {
+  const items: string[] = [];
+
+  for (const line of lines) {
+    const continuesItem = items.length > 0 && /^\s+\S/.test(line) && !LIST_ITEM.test(line)
+      && LIST_ITEM.test(items[items.length - 1]);
+    if (continuesItem) {
+      items[items.length - 1] += '\n' + line;
+    } else {
+      items.push(line);
+    }
+  }
+
+  return items;
+}
+
+/**
+ * Breaks a line that is too long between words, or anywhere when a word is too long
+ */
+function splitLine(line: string, limit: number): string[] {
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const word of line.split(' ')) {
+    let rest = word;
+    while (rest.length > limit) {
+      if (current) {
+        chunks.push(current);
+        current = '';
+      }
+      // Do not cut between the two halves of a surrogate pair
+      const end = /[\uD800-\uDBFF]/.test(rest[limit - 1]) ? limit - 1 : limit;
+      chunks.push(rest.slice(0, end));
+      rest = rest.slice(end);
+    }
+
+    if (current && current.length + 1 + rest.length > limit) {
+      chunks.push(current);
+      current = rest;
+    } else {
+      current = current ? `${current} ${rest}` : rest;
+    }
+  }
+  if (current) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
@@ -0,0 +1,144 @@
+// In-process metrics in the Prometheus text exposition format
+type Labels = Record<string, string>;
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+interface Metric {
+  render(): string[];
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, value]) => `${name}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`);
+
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+export class Counter implements Metric {
+  private values: Map<string, { labels: Labels; value: number }>; // formatted labels -> value
+
+  constructor(private name: string, private help: string) {
+    this.values = new Map();
+  }
+
+  inc(labels: Labels = {}, value: number = 1): void {
+    const key = formatLabels(labels);
+    const entry = this.values.get(key) || { labels, value: 0 };
+    entry.value += value;
+    this.values.set(key, entry);
+  }
+
+  get(labels: Labels = {}): number {
+    return this.values.get(formatLabels(labels))?.value || 0;
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...[...this.values.entries()].map(([key, { value }]) => `${this.name}${key} ${value}`),
+    ];
+  }
+}
+
+/**
+ * Value read when metrics are scraped, e.g. the number of stored sessions
+ */
+export class Gauge implements Metric {
+  constructor(private name: string, private help: string, private read: () => number) {}
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} gauge`,
+      `${this.name} ${this.read()}`,
+    ];
+  }
+}
+
+export class Histogram implements Metric {
+  private series: Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>;
+
+  /**
+   * @param buckets - Upper bounds in ascending order; +Inf is added
+   */
+  constructor(private name: string, private help: string, private buckets: number[]) {
+    this.series = new Map();
+  }
+
+  observe(labels: Labels, value: number): void {
+    const key = formatLabels(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, entry);
+    }
+
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        entry!.counts[index]++;
+      }
+    });
+    entry.sum += value;
+    entry.count++;
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      this.buckets.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+
+    return lines;
+  }
+}
+
+export class MetricsRegistry {
+  private metrics: Metric[] = [];
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  gauge(name: string, help: string, read: () => number): Gauge {
+    return this.register(new Gauge(name, help, read));
+  }
+
+  histogram(name: string, help: string, buckets: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  render(): string {
+    return this.metrics.map((metric) => metric.render().join('\n')).join('\n') + '\n';
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+export const registry = new MetricsRegistry();
+
+export const routedMessages = registry.counter(
+  'bot_messages_routed_total',
+  'Incoming messages by route type'
+);
+
+export const transcriptFetches = registry.counter(
+  'bot_transcript_fetches_total',
+  'Transcript fetches by outcome: success or the error code'
+);
+
+export const aiRequestDuration = registry.histogram(
+  'bot_ai_request_duration_seconds',
+  'Latency of successful AI completions by model',
+  [0.5, 1, 2, 5, 10, 20, 30, 60]
+);
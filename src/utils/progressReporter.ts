@@ -0,0 +1,129 @@
+// Progress of a long request, shown by editing a single status message
+import { ReplyButton } from '../models';
+import { logger } from './logger';
+
+/**
+ * A message that can be replaced after it was sent
+ */
+export interface StatusMessage {
+  update(text: string, buttons?: ReplyButton[][]): Promise<void>;
+}
+
+type SendMessage = (text: string, buttons?: ReplyButton[][]) => Promise<void>;
+
+const MIN_EDIT_INTERVAL_MS = 1000; // Telegram rate-limits edits of one chat
+const HEARTBEAT_MS = 5000;
+
+/**
+ * Formats elapsed time as "42s" or "1m 05s"
+ */
+export function formatElapsed(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  return `${Math.floor(seconds / 60)}m ${(seconds % 60).toString().padStart(2, '0')}s`;
+}
+
+/**
+ * Shows the current stage of a request with the time elapsed since it started
+ * Edits are spaced at least a second apart, and the elapsed time is refreshed every
+ * few seconds so a slow stage does not look like the bot hung. Failed progress edits
+ * are logged and never fail the request; when the final edit fails, the result is sent
+ * as a new message instead
+ */
+export class ProgressReporter {
+  private readonly startedAt: number;
+  private stage: string = '';
+  private lastText: string = '';
+  private lastEditAt: number = 0;
+  private edits: Promise<void> = Promise.resolve();
+  private pendingEdit: NodeJS.Timeout | null = null;
+  private heartbeat: NodeJS.Timeout;
+  private finished = false;
+
+  /**
+   * @param status - Message to edit; usually already shows the first stage
+   * @param send - Sends a new message, for a result the status cannot be replaced with
+   */
+  constructor(
+    private status: StatusMessage,
+    private send: SendMessage,
+    private now: () => number = Date.now
+  ) {
+    this.startedAt = now();
+    this.lastEditAt = this.startedAt;
+    this.heartbeat = setInterval(() => this.render(), HEARTBEAT_MS);
+    this.heartbeat.unref();
+  }
+
+  /**
+   * Moves to a new stage, e.g. "Summarizing part 3 of 8"
+   */
+  report(stage: string): void {
+    this.stage = stage;
+    this.render();
+  }
+
+  /**
+   * Replaces the status with the final result or an error message, or sends it as a new
+   * message when the status cannot be edited (rate limit, deleted message, network error)
+   * Later reports are ignored
+   * @param buttons - Shown under the result
+   */
+  async finish(text: string, buttons?: ReplyButton[][]): Promise<void> {
+    this.stop();
+    await this.edits;
+
+    try {
+      await this.status.update(text, buttons);
+    } catch (error) {
+      logger.warning('Failed to replace status message, sending the result instead', {
+        error: (error as Error).message,
+      });
+      await this.send(text, buttons);
+    }
+  }
+
+  private render(): void {
+    if (this.finished || !this.stage || this.pendingEdit) {
+      return;
+    }
+
+    const wait = this.lastEditAt + MIN_EDIT_INTERVAL_MS - this.now();
+    if (wait > 0) {
+      this.pendingEdit = setTimeout(() => {
+        this.pendingEdit = null;
+        this.render();
+      }, wait);
+      this.pendingEdit.unref();
+      return;
+    }
+
+    this.edit(`⏳ ${this.stage}... (${formatElapsed(this.now() - this.startedAt)})`);
+  }
+
+  private edit(text: string): void {
+    // Telegram rejects edits that do not change the text
+    if (text === this.lastText) {
+      return;
+    }
+
+    this.lastText = text;
+    this.lastEditAt = this.now();
+    this.edits = this.edits.then(() =>
+      this.status.update(text).catch((error) => {
+        logger.warning('Failed to update status message', { error: (error as Error).message });
+      })
+    );
+  }
+
+  private stop(): void {
+    this.finished = true;
+    clearInterval(this.heartbeat);
+    if (this.pendingEdit) {
+      clearTimeout(this.pendingEdit);
+      this.pendingEdit = null;
+    }
+  }
+}
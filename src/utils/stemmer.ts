@@ -0,0 +1,172 @@
+// English stemmer (Porter algorithm)
+
+const STEP2_SUFFIXES: [string, string][] = [
+  ['ational', 'ate'], ['tional', 'tion'], ['enci', 'ence'], ['anci', 'ance'],
+  ['izer', 'ize'], ['bli', 'ble'], ['alli', 'al'], ['entli', 'ent'], ['eli', 'e'],
+  ['ousli', 'ous'], ['ization', 'ize'], ['ation', 'ate'], ['ator', 'ate'],
+  ['alism', 'al'], ['iveness', 'ive'], ['fulness', 'ful'], ['ousness', 'ous'],
+  ['aliti', 'al'], ['iviti', 'ive'], ['biliti', 'ble'], ['logi', 'log'],
+];
+
+const STEP3_SUFFIXES: [string, string][] = [
+  ['icate', 'ic'], ['ative', ''], ['alize', 'al'], ['iciti', 'ic'],
+  ['ical', 'ic'], ['ful', ''], ['ness', ''],
+];
+
+const STEP4_SUFFIXES = [
+  'al', 'ance', 'ence', 'er', 'ic', 'able', 'ible', 'ant', 'ement', 'ment',
+  'ent', 'ion', 'ou', 'ism', 'ate', 'iti', 'ous', 'ive', 'ize',
+];
+
+function isConsonant(word: string, i: number): boolean {
+  const ch = word[i];
+  if ('aeiou'.includes(ch)) {
+    return false;
+  }
+  if (ch === 'y') {
+    return i === 0 || !isConsonant(word, i - 1);
+  }
+  return true;
+}
+
+/**
+ * Number of vowel-consonant sequences in the stem ("m" in Porter's paper)
+ */
+function measure(stem: string): number {
+  let count = 0;
+  let i = 0;
+
+  while (i < stem.length && isConsonant(stem, i)) i++;
+  while (i < stem.length) {
+    while (i < stem.length && !isConsonant(stem, i)) i++;
+    if (i >= stem.length) break;
+    while (i < stem.length && isConsonant(stem, i)) i++;
+    count++;
+  }
+
+  return count;
+}
+
+function hasVowel(stem: string): boolean {
+  for (let i = 0; i < stem.length; i++) {
+    if (!isConsonant(stem, i)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function endsWithDoubleConsonant(word: string): boolean {
+  const n = word.length;
+  return n >= 2 && word[n - 1] === word[n - 2] && isConsonant(word, n - 1);
+}
+
+/**
+ * Consonant-vowel-consonant ending where the last consonant is not w, x or y
+ */
+function endsWithCvc(word: string): boolean {
+  const n = word.length;
+  return (
+    n >= 3 &&
+    isConsonant(word, n - 3) &&
+    !isConsonant(word, n - 2) &&
+    isConsonant(word, n - 1) &&
+    !'wxy'.includes(word[n - 1])
+  );
+}
+
+function replaceSuffix(word: string, suffixes: [string, string][], minMeasure: number): string {
+  for (const [suffix, replacement] of suffixes) {
+    if (word.endsWith(suffix)) {
+      const stem = word.slice(0, -suffix.length);
+      return measure(stem) > minMeasure ? stem + replacement : word;
+    }
+  }
+  return word;
+}
+
+function step1(word: string): string {
+  // Step 1a: plurals
+  if (word.endsWith('sses') || word.endsWith('ies')) {
+    word = word.slice(0, -2);
+  } else if (word.endsWith('s') && !word.endsWith('ss')) {
+    word = word.slice(0, -1);
+  }
+
+  // Step 1b: past tense and gerunds
+  if (word.endsWith('eed')) {
+    if (measure(word.slice(0, -3)) > 0) {
+      word = word.slice(0, -1);
+    }
+  } else {
+    const suffix = word.endsWith('ed') ? 'ed' : word.endsWith('ing') ? 'ing' : null;
+    if (suffix && hasVowel(word.slice(0, -suffix.length))) {
+      word = word.slice(0, -suffix.length);
+
+      if (word.endsWith('at') || word.endsWith('bl') || word.endsWith('iz')) {
+        word += 'e';
+      } else if (endsWithDoubleConsonant(word) && !'lsz'.includes(word[word.length - 1])) {
+        word = word.slice(0, -1);
+      } else if (measure(word) === 1 && endsWithCvc(word)) {
+        word += 'e';
+      }
+    }
+  }
+
+  // Step 1c: terminal y
+  if (word.endsWith('y') && hasVowel(word.slice(0, -1))) {
+    word = word.slice(0, -1) + 'i';
+  }
+
+  return word;
+}
+
+function step4(word: string): string {
+  for (const suffix of STEP4_SUFFIXES) {
+    if (word.endsWith(suffix)) {
+      const stem = word.slice(0, -suffix.length);
+      if (suffix === 'ion' && !/[st]$/.test(stem)) {
+        return word;
+      }
+      return measure(stem) > 1 ? stem : word;
+    }
+  }
+  return word;
+}
+
+function step5(word: string): string {
+  if (word.endsWith('e')) {
+    const stem = word.slice(0, -1);
+    const m = measure(stem);
+    if (m > 1 || (m === 1 && !endsWithCvc(stem))) {
+      word = stem;
+    }
+  }
+
+  if (measure(word) > 1 && endsWithDoubleConsonant(word) && word.endsWith('l')) {
+    word = word.slice(0, -1);
+  }
+
+  return word;
+}
+
+/**
+ * Reduces an English word to its stem so inflected forms match
+ * ("learning", "learned" and "learns" all become "learn")
+ * Words with non-ASCII letters are returned unchanged
+ * @param word - Lowercase word
+ * @returns Word stem
+ */
+export function stem(word: string): string {
+  if (word.length <= 2 || !/^[a-z]+$/.test(word)) {
+    return word;
+  }
+
+  let result = step1(word);
+  result = replaceSuffix(result, STEP2_SUFFIXES, 0);
+  result = replaceSuffix(result, STEP3_SUFFIXES, 0);
+  result = step4(result);
+  result = step5(result);
+
+  return result;
+}
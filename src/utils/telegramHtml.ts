@@ -0,0 +1,58 @@
+// Telegram HTML formatting (parse_mode "HTML") and its plain-text fallback
+// Replies are HTML; anything from users, videos or the model must go through escapeHtml
+
+const ENTITIES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' };
+
+/**
+ * Escapes text so Telegram shows it as-is instead of parsing it as markup
+ * Parsed model output does not always have the declared types, so anything is turned into a string
+ */
+export function escapeHtml(text: string): string {
+  return String(text ?? '').replace(/[&<>"]/g, (char) => ENTITIES[char]);
+}
+
+export function bold(text: string): string {
+  return `<b>${escapeHtml(text)}</b>`;
+}
+
+/**
+ * Inline code, used for commands the user can type
+ */
+export function code(text: string): string {
+  return `<code>${escapeHtml(text)}</code>`;
+}
+
+export function link(url: string, text: string): string {
+  return `<a href="${escapeHtml(url)}">${escapeHtml(text)}</a>`;
+}
+
+/**
+ * Converts a reply to plain text, for transports without HTML and for messages Telegram
+ * refuses to parse; links keep their URL after the link text
+ */
+export function toPlainText(html: string): string {
+  return unescapeHtml(
+    html
+      .replace(/<a href="([^"]*)">([\s\S]*?)<\/a>/g, (_match, url: string, text: string) =>
+        text === url ? url : `${text} ${url}`)
+      .replace(/<\/?[a-z][^>]*>/gi, '')
+  );
+}
+
+/**
+ * Converts a reply to Markdown, for replies sent as a .md file
+ */
+export function toMarkdown(html: string): string {
+  return unescapeHtml(
+    html
+      .replace(/<a href="([^"]*)">([\s\S]*?)<\/a>/g, (_match, url: string, text: string) => `[${text}](${url})`)
+      .replace(/<\/?b>/g, '**')
+      .replace(/<\/?code>/g, '`')
+      .replace(/<\/?[a-z][^>]*>/gi, '')
+  );
+}
+
+function unescapeHtml(text: string): string {
+  return text.replace(/&(amp|lt|gt|quot);/g, (entity) =>
+    Object.keys(ENTITIES).find((char) => ENTITIES[char] === entity)!);
+}
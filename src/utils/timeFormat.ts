@@ -0,0 +1,51 @@
+// Video time formatting utility
+
+/**
+ * Formats a position in seconds as a video timestamp
+ * Uses "M:SS" below one hour and "H:MM:SS" above, like YouTube
+ * @param seconds - Position in the video in seconds
+ * @returns Formatted timestamp string
+ */
+export function formatTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  const paddedSecs = secs.toString().padStart(2, '0');
+
+  if (hours > 0) {
+    return `${hours}:${minutes.toString().padStart(2, '0')}:${paddedSecs}`;
+  }
+
+  return `${minutes}:${paddedSecs}`;
+}
+
+/**
+ * Parses a video timestamp into seconds
+ * Accepts "SS", "M:SS", "MM:SS" and "H:MM:SS", optionally wrapped in brackets
+ * @param time - Timestamp string
+ * @returns Position in seconds or null if the string is not a valid timestamp
+ */
+export function parseTimestamp(time: string): number | null {
+  if (!time || typeof time !== 'string') {
+    return null;
+  }
+
+  const match = time.trim().match(/^\[?(?:(\d+):)?(?:(\d+):)?(\d+)\]?$/);
+  if (!match) {
+    return null;
+  }
+
+  const parts = [match[1], match[2], match[3]]
+    .filter((part): part is string => part !== undefined)
+    .map(Number);
+
+  // Minutes and seconds must stay below 60 when a larger unit is present
+  for (let i = 1; i < parts.length; i++) {
+    if (parts[i] >= 60) {
+      return null;
+    }
+  }
+
+  return parts.reduce((total, part) => total * 60 + part, 0);
+}
@@ -59,3 +59,13 @@ export function isValidVideoId(videoId: string): boolean {
   const videoIdPattern = /^[a-zA-Z0-9_-]{11}$/;
   return videoIdPattern.test(videoId);
 }
+
+/**
+ * Builds a short YouTube link that starts playback at a given position
+ * @param videoId - YouTube video ID
+ * @param seconds - Start position in seconds
+ * @returns URL in the form https://youtu.be/VIDEO_ID?t=SECONDS
+ */
+export function buildTimestampUrl(videoId: string, seconds: number): string {
+  return `https://youtu.be/${videoId}?t=${Math.max(0, Math.floor(seconds))}`;
+}
@@ -0,0 +1,184 @@
+// Token usage and cost accounting for AI requests
+import { AsyncLocalStorage } from 'async_hooks';
+import { config } from '../config';
+import { logger } from './logger';
+import { AIProvider, AIResponse, AITask, AIUsage, CompletionOptions, ProviderStatus } from './aiProvider';
+
+export type UsageOperation = 'summary' | 'qa' | 'translate' | 'actionpoints' | 'other';
+
+// Chunk summaries and comparisons are part of producing summaries
+const OPERATIONS: Record<AITask, UsageOperation> = {
+  summary: 'summary',
+  chunk_summary: 'summary',
+  qa: 'qa',
+  translation: 'translate',
+  action_points: 'actionpoints',
+};
+
+export interface ModelPrice {
+  prompt: number; // USD per million prompt tokens
+  completion: number; // USD per million completion tokens
+}
+
+export interface UsageTotals {
+  requests: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  cost: number; // estimated USD
+  latency_ms: number; // summed, for averages
+}
+
+export interface UsageReport {
+  since: Date;
+  total: UsageTotals;
+  by_user: Map<string, UsageTotals>;
+  by_operation: Map<UsageOperation, UsageTotals>;
+  by_model: Map<string, UsageTotals>;
+  unpriced_models: string[];
+}
+
+const emptyTotals = (): UsageTotals => ({
+  requests: 0,
+  prompt_tokens: 0,
+  completion_tokens: 0,
+  cost: 0,
+  latency_ms: 0,
+});
+
+/**
+ * Accumulates token usage per user, operation and model since the bot started
+ * The user is taken from the surrounding runForUser call, so components do not
+ * need to pass it down to every AI request
+ */
+export class UsageTracker {
+  private context = new AsyncLocalStorage<string>();
+  private since = new Date();
+  private total = emptyTotals();
+  private byUser = new Map<string, UsageTotals>();
+  private byOperation = new Map<UsageOperation, UsageTotals>();
+  private byModel = new Map<string, UsageTotals>();
+  private unpricedModels = new Set<string>();
+  private listeners: ((userId: string, usage: AIUsage) => void)[] = [];
+
+  /**
+   * @param prices - Price per model name; a name also covers versioned names starting with it
+   */
+  constructor(private prices: Record<string, ModelPrice> = config.usage.prices) {}
+
+  /**
+   * Attributes all AI requests made while running the handler to a user
+   */
+  runForUser<T>(userId: string, handler: () => Promise<T>): Promise<T> {
+    return this.context.run(userId, handler);
+  }
+
+  /**
+   * Calls the listener with the user and usage of every recorded request
+   */
+  onRecord(listener: (userId: string, usage: AIUsage) => void): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Records the usage of one AI request for the current user
+   */
+  record(usage: AIUsage, task?: AITask): void {
+    const userId = this.context.getStore() || 'unknown';
+    const operation = task ? OPERATIONS[task] : 'other';
+    const cost = this.estimateCost(usage);
+
+    for (const totals of [
+      this.total,
+      this.totalsFor(this.byUser, userId),
+      this.totalsFor(this.byOperation, operation),
+      this.totalsFor(this.byModel, usage.model),
+    ]) {
+      totals.requests++;
+      totals.prompt_tokens += usage.prompt_tokens;
+      totals.completion_tokens += usage.completion_tokens;
+      totals.cost += cost;
+      totals.latency_ms += usage.latency_ms;
+    }
+
+    logger.info('AI usage', { userId, operation, ...usage, cost });
+
+    for (const listener of this.listeners) {
+      listener(userId, usage);
+    }
+  }
+
+  /**
+   * Estimated cost in USD; models missing from the price table count as free
+   */
+  estimateCost(usage: AIUsage): number {
+    const price = this.findPrice(usage.model);
+    if (!price) {
+      this.unpricedModels.add(usage.model);
+      return 0;
+    }
+
+    return (usage.prompt_tokens * price.prompt + usage.completion_tokens * price.completion) / 1_000_000;
+  }
+
+  getReport(): UsageReport {
+    return {
+      since: this.since,
+      total: { ...this.total },
+      by_user: new Map(this.byUser),
+      by_operation: new Map(this.byOperation),
+      by_model: new Map(this.byModel),
+      unpriced_models: [...this.unpricedModels],
+    };
+  }
+
+  /**
+   * Exact match first, then the longest name the model starts with
+   * (APIs report versioned names such as gpt-4o-mini-2024-07-18)
+   */
+  private findPrice(model: string): ModelPrice | undefined {
+    if (this.prices[model]) {
+      return this.prices[model];
+    }
+
+    const prefix = Object.keys(this.prices)
+      .filter((name) => model.startsWith(name))
+      .sort((a, b) => b.length - a.length)[0];
+
+    return prefix ? this.prices[prefix] : undefined;
+  }
+
+  private totalsFor<K>(map: Map<K, UsageTotals>, key: K): UsageTotals {
+    let totals = map.get(key);
+    if (!totals) {
+      totals = emptyTotals();
+      map.set(key, totals);
+    }
+    return totals;
+  }
+}
+
+/**
+ * Records the usage reported by every response of the wrapped provider
+ */
+export class MeteredProvider implements AIProvider {
+  constructor(private provider: AIProvider, private tracker: UsageTracker) {}
+
+  async generateCompletion(
+    systemPrompt: string,
+    userPrompt: string,
+    temperature?: number,
+    options?: CompletionOptions
+  ): Promise<AIResponse> {
+    const response = await this.provider.generateCompletion(systemPrompt, userPrompt, temperature, options);
+
+    if (response.usage) {
+      this.tracker.record(response.usage, options?.task);
+    }
+
+    return response;
+  }
+
+  getStatus(): ProviderStatus[] {
+    return this.provider.getStatus?.() || [];
+  }
+}
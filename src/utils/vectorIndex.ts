@@ -0,0 +1,70 @@
+// In-process vector index and rank fusion
+import { SearchResult } from './bm25';
+
+/**
+ * Cosine similarity of two vectors of equal length
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+export class VectorIndex {
+  /**
+   * @param vectors - One embedding per document, in document order
+   */
+  constructor(private vectors: number[][]) {}
+
+  get size(): number {
+    return this.vectors.length;
+  }
+
+  /**
+   * Finds the documents closest to a query embedding
+   * @param query - Query embedding
+   * @param limit - Maximum number of results
+   * @param minScore - Minimum cosine similarity for a document to be returned
+   * @returns Matching documents, most similar first
+   */
+  search(query: number[], limit: number = this.size, minScore: number = 0): SearchResult[] {
+    return this.vectors
+      .map((vector, index) => ({ index, score: cosineSimilarity(query, vector) }))
+      .filter((result) => result.score > minScore)
+      .sort((x, y) => y.score - x.score || x.index - y.index)
+      .slice(0, limit);
+  }
+}
+
+/**
+ * Merges several rankings of the same documents with reciprocal rank fusion
+ * Scores of different retrievers are not comparable, so only ranks are used
+ * @param rankings - Rankings to merge, each best first
+ * @param k - Damping constant; higher values flatten the influence of top ranks
+ * @returns Fused ranking, best first
+ */
+export function reciprocalRankFusion(rankings: SearchResult[][], k: number = 60): SearchResult[] {
+  const scores = new Map<number, number>();
+
+  for (const ranking of rankings) {
+    ranking.forEach((result, rank) => {
+      scores.set(result.index, (scores.get(result.index) || 0) + 1 / (k + rank + 1));
+    });
+  }
+
+  return [...scores.entries()]
+    .map(([index, score]) => ({ index, score }))
+    .sort((x, y) => y.score - x.score || x.index - y.index);
+}
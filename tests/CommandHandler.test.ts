@@ -1,6 +1,8 @@
 import { CommandHandler } from '../src/components/CommandHandler';
 import { ContextManager } from '../src/components/ContextManager';
 import { Summarizer } from '../src/components/Summarizer';
+import { UsageTracker } from '../src/utils/usageTracker';
+import { config } from '../src/config';
 import * as fc from 'fast-check';
 
 // Mock AI Provider
@@ -22,6 +24,7 @@ describe('CommandHandler', () => {
     video_id: 'test123',
     title: 'Test Video',
     text,
+    segments: [],
     language: 'en',
     duration: 600,
     fetched_at: new Date(),
@@ -45,6 +48,10 @@ describe('CommandHandler', () => {
     commandHandler = new CommandHandler(contextManager, summarizer);
   });
 
+  afterEach(() => {
+    contextManager.stopCleanupTask();
+  });
+
   describe('Unit Tests', () => {
     describe('/summary command', () => {
       test('should return error when no active session', async () => {
@@ -62,6 +69,62 @@ describe('CommandHandler', () => {
         expect(typeof result).toBe('string');
         expect(result.length).toBeGreaterThan(0);
       });
+
+      test('should use the cached summary of the video', async () => {
+        const transcript = createMockTranscript();
+        contextManager.cacheTranscript('test123', transcript);
+        contextManager.cacheSummary('test123', 'en', {
+          title: 'Test Video',
+          key_points: ['Cached point'],
+          timestamps: [],
+          core_takeaway: 'Cached takeaway',
+        });
+        await contextManager.createSession('user123', 'test123', transcript);
+
+        const result = await commandHandler.handleSummaryCommand('user123');
+
+        expect(result).toContain('Cached point');
+        expect(mockGenerateCompletion).not.toHaveBeenCalled();
+      });
+
+      test('should cache a new summary for the next request', async () => {
+        const transcript = createMockTranscript();
+        contextManager.cacheTranscript('test123', transcript);
+        await contextManager.createSession('user123', 'test123', transcript);
+
+        await commandHandler.handleSummaryCommand('user123');
+        const result = await commandHandler.handleSummaryCommand('user123');
+
+        expect(result).toContain('Point 1');
+        expect(mockGenerateCompletion).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    describe('/summary detailed and /translate commands', () => {
+      test('should ask for a longer summary', async () => {
+        await contextManager.createSession('user123', 'video123', createMockTranscript());
+
+        await commandHandler.handleSummaryCommand('user123', 'detailed');
+
+        expect(mockGenerateCompletion.mock.calls[0][1]).toContain('8 to 10 key points');
+      });
+
+      test('should switch the session language and summarize in it', async () => {
+        await contextManager.createSession('user123', 'video123', createMockTranscript());
+
+        const result = await commandHandler.handleTranslateCommand('user123', 'hi');
+
+        expect(result).toContain('Point 1');
+        expect(mockGenerateCompletion.mock.calls[0][1]).toContain('Provide the summary in Hindi.');
+        expect((await contextManager.getSession('user123'))?.language).toBe('hi');
+      });
+
+      test('should return error when no active session', async () => {
+        const result = await commandHandler.handleTranslateCommand('user123', 'hi');
+
+        expect(result).toContain('No active session');
+        expect(mockGenerateCompletion).not.toHaveBeenCalled();
+      });
     });
 
     describe('/actionpoints command', () => {
@@ -88,6 +151,18 @@ describe('CommandHandler', () => {
         expect(result).toContain('1.');
       });
 
+      test('should extract action points with the injected AI provider', async () => {
+        const injected = jest.fn().mockResolvedValue({ content: JSON.stringify(['Injected action']) });
+        const handler = new CommandHandler(contextManager, summarizer, { generateCompletion: injected });
+        await contextManager.createSession('user123', 'video123', createMockTranscript());
+
+        const result = await handler.handleActionPointsCommand('user123');
+
+        expect(result).toContain('1. Injected action');
+        expect(injected).toHaveBeenCalledWith(expect.any(String), expect.any(String), 0.3, { task: 'action_points' });
+        expect(mockGenerateCompletion).not.toHaveBeenCalled();
+      });
+
       test('should handle empty action points', async () => {
         // Mock empty action points
         mockGenerateCompletion.mockResolvedValueOnce({
@@ -128,6 +203,187 @@ describe('CommandHandler', () => {
       });
     });
 
+    describe('/usage command', () => {
+      const originalAdmins = config.admin.userIds;
+      let tracker: UsageTracker;
+
+      beforeEach(() => {
+        config.admin.userIds = ['admin1'];
+        tracker = new UsageTracker({ 'gpt-4o': { prompt: 2.5, completion: 10 } });
+        commandHandler = new CommandHandler(contextManager, summarizer, undefined, undefined, tracker);
+      });
+
+      afterAll(() => {
+        config.admin.userIds = originalAdmins;
+      });
+
+      test('should refuse users who are not admins', () => {
+        expect(commandHandler.handleUsageCommand('user123')).toContain('only available to bot admins');
+      });
+
+      test('should say when nothing was used yet', () => {
+        expect(commandHandler.handleUsageCommand('admin1')).toContain('No AI requests');
+      });
+
+      test('should report usage by operation, model and user', async () => {
+        await tracker.runForUser('user123', async () => {
+          tracker.record({ prompt_tokens: 1000, completion_tokens: 100, model: 'gpt-4o', latency_ms: 400 }, 'summary');
+          tracker.record({ prompt_tokens: 500, completion_tokens: 50, model: 'llama3.1:8b', latency_ms: 200 }, 'qa');
+        });
+
+        const result = commandHandler.handleUsageCommand('admin1');
+
+        expect(result).toContain('Total: 2 req • 1500 in / 150 out tokens • ~$0.0035 • 300 ms avg');
+        expect(result).toContain('• summary: 1 req');
+        expect(result).toContain('• qa: 1 req');
+        expect(result).toContain('• gpt-4o: 1 req');
+        expect(result).toContain('• user123: 2 req');
+        expect(result).toContain('No price configured for: llama3.1:8b');
+      });
+    });
+
+    describe('/videos command', () => {
+      test('should ask for a link when the user has no videos', async () => {
+        const result = await commandHandler.handleVideosCommand('user123');
+        expect(result).toContain('No videos yet');
+      });
+
+      test('should list videos newest first and mark the active one', async () => {
+        await contextManager.createSession('user123', 'video1', { ...createMockTranscript(), title: 'First Video' });
+        await contextManager.createSession('user123', 'video2', { ...createMockTranscript(), title: 'Second Video', duration: 3725 });
+        await contextManager.switchSession('user123', 'video1');
+
+        const result = await commandHandler.handleVideosCommand('user123');
+
+        expect(result).toContain('1. Second Video\n   ⏱ 1:02:05');
+        expect(result).toContain('2. First Video ✅');
+        expect(result).toContain('last used just now');
+      });
+    });
+
+    describe('/switch command', () => {
+      test('should switch to the chosen video', async () => {
+        await contextManager.createSession('user123', 'video1', { ...createMockTranscript(), title: 'First Video' });
+        await contextManager.createSession('user123', 'video2', { ...createMockTranscript(), title: 'Second Video' });
+
+        const result = await commandHandler.handleSwitchCommand('user123', '2');
+
+        expect(result).toContain('Switched to: <b>First Video</b>');
+        const session = await contextManager.getSession('user123');
+        expect(session?.video_id).toBe('video1');
+      });
+
+      test('should reject numbers outside the list', async () => {
+        await contextManager.createSession('user123', 'video1', createMockTranscript());
+
+        for (const args of ['', '0', '2', 'abc', '1.5']) {
+          const result = await commandHandler.handleSwitchCommand('user123', args);
+          expect(result).toContain('between 1 and 1');
+        }
+      });
+
+      test('should ask for a link when the user has no videos', async () => {
+        const result = await commandHandler.handleSwitchCommand('user123', '1');
+        expect(result).toContain('No videos yet');
+      });
+    });
+
+    describe('/compare command', () => {
+      const comparisonReply = {
+        content: JSON.stringify({
+          shared_points: [{ point: 'Both cover testing', first_time: '0:00', second_time: '0:00' }],
+          unique_to_first: [],
+          unique_to_second: [],
+          contradictions: [],
+        }),
+      };
+
+      test('should compare two videos from the library by number', async () => {
+        await contextManager.createSession('user123', 'video1', { ...createMockTranscript(), video_id: 'video1', title: 'First Video' });
+        await contextManager.createSession('user123', 'video2', { ...createMockTranscript(), video_id: 'video2', title: 'Second Video' });
+        mockGenerateCompletion
+          .mockResolvedValueOnce({ content: JSON.stringify({ key_points: [], timestamps: [], core_takeaway: '' }) })
+          .mockResolvedValueOnce({ content: JSON.stringify({ key_points: [], timestamps: [], core_takeaway: '' }) })
+          .mockResolvedValueOnce(comparisonReply);
+
+        const result = await commandHandler.handleCompareCommand('user123', '2 1');
+
+        expect(result).toContain('1️⃣ First Video\n2️⃣ Second Video');
+        expect(result).toContain('Both cover testing');
+      });
+
+      test('should compare the two most recent videos without arguments', async () => {
+        await contextManager.createSession('user123', 'video1', { ...createMockTranscript(), video_id: 'video1', title: 'First Video' });
+        await contextManager.createSession('user123', 'video2', { ...createMockTranscript(), video_id: 'video2', title: 'Second Video' });
+        mockGenerateCompletion
+          .mockResolvedValueOnce({ content: JSON.stringify({ key_points: [], timestamps: [], core_takeaway: '' }) })
+          .mockResolvedValueOnce({ content: JSON.stringify({ key_points: [], timestamps: [], core_takeaway: '' }) })
+          .mockResolvedValueOnce(comparisonReply);
+
+        const result = await commandHandler.handleCompareCommand('user123', '');
+
+        expect(result).toContain('1️⃣ Second Video\n2️⃣ First Video');
+      });
+
+      test('should compare by the cached summaries of the videos', async () => {
+        for (const videoId of ['video1', 'video2']) {
+          const transcript = { ...createMockTranscript(), video_id: videoId };
+          contextManager.cacheTranscript(videoId, transcript);
+          contextManager.cacheSummary(videoId, 'en', {
+            title: videoId,
+            key_points: [`Cached point of ${videoId}`],
+            timestamps: [],
+            core_takeaway: '',
+          });
+          await contextManager.createSession('user123', videoId, transcript);
+        }
+        mockGenerateCompletion.mockResolvedValueOnce(comparisonReply);
+
+        const result = await commandHandler.handleCompareCommand('user123', '');
+
+        expect(result).toContain('Both cover testing');
+        expect(mockGenerateCompletion).toHaveBeenCalledTimes(1);
+        expect(mockGenerateCompletion.mock.calls[0][1]).toContain('Cached point of video1');
+      });
+
+      test('should fetch transcripts for links that are not in the library', async () => {
+        const fetchTranscript = jest.fn(async (videoId: string) => ({ ...createMockTranscript(), video_id: videoId, title: `Video ${videoId}` }));
+        const handler = new CommandHandler(contextManager, summarizer, { generateCompletion: mockGenerateCompletion }, { fetchTranscript } as any);
+        mockGenerateCompletion
+          .mockResolvedValueOnce({ content: JSON.stringify({ key_points: [], timestamps: [], core_takeaway: '' }) })
+          .mockResolvedValueOnce({ content: JSON.stringify({ key_points: [], timestamps: [], core_takeaway: '' }) })
+          .mockResolvedValueOnce(comparisonReply);
+
+        const result = await handler.handleCompareCommand(
+          'user123',
+          'https://youtu.be/aaaaaaaaaaa https://www.youtube.com/watch?v=bbbbbbbbbbb'
+        );
+
+        expect(fetchTranscript).toHaveBeenCalledWith('aaaaaaaaaaa');
+        expect(fetchTranscript).toHaveBeenCalledWith('bbbbbbbbbbb');
+        expect(result).toContain('Video aaaaaaaaaaa');
+      });
+
+      test('should explain usage for invalid arguments', async () => {
+        await contextManager.createSession('user123', 'video1', createMockTranscript());
+
+        for (const args of ['', '1', '1 5', 'one two', '1 2 3']) {
+          const result = await commandHandler.handleCompareCommand('user123', args);
+          expect(result).toContain('/compare 1 2');
+        }
+        expect(mockGenerateCompletion).not.toHaveBeenCalled();
+      });
+
+      test('should refuse to compare a video with itself', async () => {
+        await contextManager.createSession('user123', 'video1', createMockTranscript());
+        await contextManager.createSession('user123', 'video2', { ...createMockTranscript(), video_id: 'video2' });
+
+        const result = await commandHandler.handleCompareCommand('user123', '1 1');
+
+        expect(result).toContain('two different videos');
+      });
+    });
+
     describe('/help command', () => {
       test('should return help message', () => {
         const result = commandHandler.handleHelpCommand();
@@ -191,6 +447,7 @@ describe('CommandHandler', () => {
               video_id: videoId,
               title: 'Test Video',
               text: transcript,
+              segments: [],
               language: 'en',
               duration: 600,
               fetched_at: new Date(),
@@ -240,6 +497,7 @@ describe('CommandHandler', () => {
               video_id: videoId,
               title: 'Test Video',
               text: transcript,
+              segments: [],
               language: 'en',
               duration: 600,
               fetched_at: new Date(),
@@ -291,6 +549,7 @@ describe('CommandHandler', () => {
               video_id: videoId,
               title: 'Test Video',
               text: transcript,
+              segments: [],
               language: 'en',
               duration: 600,
               fetched_at: new Date(),
@@ -367,6 +626,7 @@ describe('CommandHandler', () => {
                 video_id: session.videoId,
                 title: 'Test Video',
                 text: session.transcript,
+                segments: [],
                 language: 'en',
                 duration: 600,
                 fetched_at: new Date(),
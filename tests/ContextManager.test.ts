@@ -1,5 +1,10 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 import { ContextManager } from '../src/components/ContextManager';
-import { Transcript } from '../src/models';
+import { MemoryStorage, SqliteStorage } from '../src/storage';
+import { Summary, Transcript } from '../src/models';
+import { config } from '../src/config';
 
 describe('ContextManager - Unit Tests', () => {
   let contextManager: ContextManager;
@@ -11,6 +16,7 @@ describe('ContextManager - Unit Tests', () => {
       video_id: 'test123',
       title: 'Test Video',
       text: 'This is a test transcript',
+      segments: [],
       language: 'en',
       duration: 300,
       fetched_at: new Date()
@@ -46,6 +52,84 @@ describe('ContextManager - Unit Tests', () => {
     });
   });
 
+  describe('video library', () => {
+    it('should keep earlier videos when a new link is sent', async () => {
+      await contextManager.createSession('user1', 'video1', mockTranscript);
+      await contextManager.updateHistory('user1', 'Q1', 'A1');
+      await contextManager.createSession('user1', 'video2', { ...mockTranscript, video_id: 'video2' });
+
+      const sessions = await contextManager.listSessions('user1');
+
+      expect(sessions.map((s) => s.video_id)).toEqual(['video2', 'video1']);
+      expect(sessions[1].history).toHaveLength(1);
+    });
+
+    it('should switch back to a video with its history intact', async () => {
+      await contextManager.createSession('user1', 'video1', mockTranscript);
+      await contextManager.updateHistory('user1', 'Q1', 'A1');
+      await contextManager.createSession('user1', 'video2', { ...mockTranscript, video_id: 'video2' });
+
+      const switched = await contextManager.switchSession('user1', 'video1');
+      const active = await contextManager.getSession('user1');
+
+      expect(switched?.video_id).toBe('video1');
+      expect(active?.video_id).toBe('video1');
+      expect(active?.history[0].question).toBe('Q1');
+    });
+
+    it('should return null when switching to an unknown video', async () => {
+      await contextManager.createSession('user1', 'video1', mockTranscript);
+
+      expect(await contextManager.switchSession('user1', 'missing')).toBeNull();
+      expect((await contextManager.getSession('user1'))?.video_id).toBe('video1');
+    });
+
+    it('should resume the session when the same video is sent again', async () => {
+      await contextManager.createSession('user1', 'video1', mockTranscript);
+      await contextManager.updateHistory('user1', 'Q1', 'A1');
+      await contextManager.createSession('user1', 'video2', { ...mockTranscript, video_id: 'video2' });
+
+      const resumed = await contextManager.createSession('user1', 'video1', mockTranscript);
+
+      expect(resumed.history).toHaveLength(1);
+      expect(await contextManager.listSessions('user1')).toHaveLength(2);
+    });
+
+    it('should drop the least recently used video beyond the per-user limit', async () => {
+      const limit = config.session.maxVideosPerUser;
+      const start = Date.now();
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'setInterval', 'clearInterval', 'setTimeout', 'clearTimeout'] });
+
+      for (let i = 0; i <= limit; i++) {
+        jest.setSystemTime(start + i * 1000);
+        await contextManager.createSession('user1', `video${i}`, { ...mockTranscript, video_id: `video${i}` });
+        // Keep video0 in use so video1 becomes the least recently used
+        if (i === 1) {
+          jest.setSystemTime(start + 1500);
+          await contextManager.switchSession('user1', 'video0');
+        }
+      }
+      jest.useRealTimers();
+
+      const videoIds = (await contextManager.listSessions('user1')).map((s) => s.video_id);
+
+      expect(videoIds).toHaveLength(limit);
+      expect(videoIds).toContain('video0');
+      expect(videoIds).not.toContain('video1');
+      expect((await contextManager.getSession('user1'))?.video_id).toBe(`video${limit}`);
+    });
+
+    it('should clear only the active video', async () => {
+      await contextManager.createSession('user1', 'video1', mockTranscript);
+      await contextManager.createSession('user1', 'video2', { ...mockTranscript, video_id: 'video2' });
+
+      await contextManager.clearSession('user1');
+
+      expect(await contextManager.getSession('user1')).toBeNull();
+      expect((await contextManager.listSessions('user1')).map((s) => s.video_id)).toEqual(['video1']);
+    });
+  });
+
   describe('getSession', () => {
     it('should retrieve an existing session', async () => {
       await contextManager.createSession('user1', 'video1', mockTranscript);
@@ -56,6 +140,20 @@ describe('ContextManager - Unit Tests', () => {
       expect(session?.user_id).toBe('user1');
     });
 
+    it('should only update the last access time when reading a session', async () => {
+      const storage = new MemoryStorage();
+      const manager = new ContextManager(storage);
+      await manager.createSession('user1', 'video1', mockTranscript);
+      const saveSession = jest.spyOn(storage, 'saveSession');
+      const touchSession = jest.spyOn(storage, 'touchSession');
+
+      const session = await manager.getSession('user1');
+      manager.close();
+
+      expect(saveSession).not.toHaveBeenCalled();
+      expect(touchSession).toHaveBeenCalledWith('user1', 'video1', session?.last_accessed);
+    });
+
     it('should return null for non-existent session', async () => {
       const session = await contextManager.getSession('nonexistent');
       
@@ -111,6 +209,21 @@ describe('ContextManager - Unit Tests', () => {
       expect(cached?.video_id).toBe('test123');
     });
 
+    it('should keep segment timing in cached transcript', async () => {
+      const timedTranscript: Transcript = {
+        ...mockTranscript,
+        segments: [
+          { text: 'This is', offset: 0, duration: 1.2 },
+          { text: 'a test transcript', offset: 1.2, duration: 2 }
+        ]
+      };
+      await contextManager.createSession('user1', 'video1', timedTranscript);
+
+      const cached = contextManager.getCachedTranscript('video1');
+
+      expect(cached?.segments).toEqual(timedTranscript.segments);
+    });
+
     it('should return null for non-cached transcript', () => {
       const cached = contextManager.getCachedTranscript('nonexistent');
       
@@ -118,6 +231,70 @@ describe('ContextManager - Unit Tests', () => {
     });
   });
 
+  describe('getCachedSummary', () => {
+    const summary: Summary = {
+      title: 'Test Video',
+      key_points: ['One'],
+      timestamps: [{ time: '0:00', description: 'Start' }],
+      core_takeaway: 'Testing works',
+    };
+
+    it('should return summaries cached for the video and language', () => {
+      contextManager.cacheTranscript('video1', mockTranscript);
+      contextManager.cacheSummary('video1', 'hi', summary);
+
+      expect(contextManager.getCachedSummary('video1', 'hi')).toEqual(summary);
+      expect(contextManager.getCachedSummary('video1', 'en')).toBeNull();
+    });
+
+    it('should drop summaries with their expired transcript', () => {
+      const expiredAt = new Date(Date.now() - (config.cache.ttlDays + 1) * 24 * 60 * 60 * 1000);
+      contextManager.cacheTranscript('video1', { ...mockTranscript, fetched_at: expiredAt });
+      contextManager.cacheSummary('video1', 'en', summary);
+
+      expect(contextManager.getCachedSummary('video1', 'en')).toBeNull();
+
+      contextManager.cacheTranscript('video1', mockTranscript);
+      expect(contextManager.getCachedSummary('video1', 'en')).toBeNull();
+    });
+  });
+
+  describe('setLanguage', () => {
+    it('should update the session language', async () => {
+      await contextManager.createSession('user1', 'video1', mockTranscript);
+
+      await contextManager.setLanguage('user1', 'ta');
+
+      const session = await contextManager.getSession('user1');
+      expect(session?.language).toBe('ta');
+    });
+  });
+
+  describe('persistent storage', () => {
+    it('should restore sessions, history and transcripts after a restart', async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'context-manager-'));
+      const filePath = path.join(dir, 'bot.db');
+
+      try {
+        const before = new ContextManager(new SqliteStorage(filePath));
+        await before.createSession('user1', 'video1', mockTranscript);
+        await before.updateHistory('user1', 'What is this about?', 'A test video');
+        before.close();
+
+        const after = new ContextManager(new SqliteStorage(filePath));
+        const session = await after.getSession('user1');
+        const cached = after.getCachedTranscript('video1');
+        after.close();
+
+        expect(session?.video_id).toBe('video1');
+        expect(session?.history.map((qa) => qa.answer)).toEqual(['A test video']);
+        expect(cached?.text).toBe(mockTranscript.text);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
   describe('getStats', () => {
     it('should return correct statistics', async () => {
       await contextManager.createSession('user1', 'video1', mockTranscript);
@@ -161,6 +338,7 @@ describe('ContextManager - Property-Based Tests', () => {
         video_id: videoId,
         title: `Video ${videoId}`,
         text: 'Test transcript',
+        segments: [],
         language: 'en',
         duration: 300,
         fetched_at: new Date()
@@ -191,6 +369,7 @@ describe('ContextManager - Property-Based Tests', () => {
         video_id: videoId,
         title: `Video ${videoId}`,
         text: 'Test transcript',
+        segments: [],
         language: 'en',
         duration: 300,
         fetched_at: new Date()
@@ -222,6 +401,7 @@ describe('ContextManager - Property-Based Tests', () => {
         video_id: `video${i}`,
         title: `Video ${i}`,
         text: `Transcript for user ${users[i]}`,
+        segments: [],
         language: 'en',
         duration: 300,
         fetched_at: new Date()
@@ -266,6 +446,7 @@ describe('ContextManager - Property-Based Tests', () => {
       video_id: videoId,
       title: 'Shared Video',
       text: 'Shared transcript content',
+      segments: [],
       language: 'en',
       duration: 300,
       fetched_at: new Date()
@@ -0,0 +1,360 @@
+import path from 'path';
+import { PassThrough } from 'stream';
+import { config } from '../src/config';
+import { ContextManager } from '../src/components/ContextManager';
+import { Summarizer } from '../src/components/Summarizer';
+import { QAEngine } from '../src/components/QAEngine';
+import { LanguageProcessor } from '../src/components/LanguageProcessor';
+import { MessageRouter } from '../src/components/MessageRouter';
+import { CommandHandler } from '../src/components/CommandHandler';
+import { QuotaManager } from '../src/components/QuotaManager';
+import { TranscriptFetcher } from '../src/components/TranscriptFetcher';
+import { ConversationService, ReplyChannel } from '../src/components/ConversationService';
+import { CliAdapter } from '../src/adapters/CliAdapter';
+import { MemoryStorage } from '../src/storage';
+import { Transcript } from '../src/models';
+import { getAIProvider } from '../src/utils/aiProvider';
+import { UsageTracker } from '../src/utils/usageTracker';
+import { toPlainText } from '../src/utils/telegramHtml';
+
+/**
+ * Drives the conversation flow without a transport, with AI responses replayed
+ * from tests/fixtures/ai and a stubbed transcript fetcher
+ */
+describe('ConversationService - Unit Tests', () => {
+  const originalScripted = { ...config.scripted };
+  let contextManager: ContextManager;
+  let quotaManager: QuotaManager;
+  let fetchTranscript: jest.Mock;
+  let service: ConversationService;
+  let replies: string[];
+  let statusUpdates: string[];
+  let buttons: any[];
+  let channel: ReplyChannel;
+
+  const segments = [
+    { text: 'why we cache slow database queries', offset: 0, duration: 30 },
+    { text: 'every entry expires after a ttl', offset: 30, duration: 30 },
+    { text: 'measure the cache hit rate', offset: 60, duration: 30 },
+  ];
+  const transcript: Transcript = {
+    video_id: 'dQw4w9WgXcQ',
+    title: 'Caching 101',
+    text: segments.map((segment) => segment.text).join(' '),
+    segments,
+    language: 'en',
+    duration: 90,
+    fetched_at: new Date(),
+  };
+
+  const createService = (limits = { videosPerDay: 5, questionsPerHour: 5, tokensPerDay: 0 }) => {
+    const storage = new MemoryStorage();
+    const aiProvider = getAIProvider();
+    const transcriptFetcher = new TranscriptFetcher();
+    transcriptFetcher.fetchTranscript = fetchTranscript;
+    const summarizer = new Summarizer(aiProvider, transcriptFetcher);
+    const usageTracker = new UsageTracker();
+    contextManager = new ContextManager(storage);
+    quotaManager = new QuotaManager(storage, limits, []);
+
+    return new ConversationService({
+      contextManager,
+      transcriptFetcher,
+      summarizer,
+      qaEngine: new QAEngine(aiProvider, 'lexical'),
+      languageProcessor: new LanguageProcessor(aiProvider),
+      messageRouter: new MessageRouter(),
+      commandHandler: new CommandHandler(contextManager, summarizer, aiProvider, transcriptFetcher, usageTracker),
+      quotaManager,
+      usageTracker,
+    });
+  };
+
+  beforeAll(() => {
+    config.scripted.mode = 'replay';
+    config.scripted.fixtureDir = path.join(__dirname, 'fixtures', 'ai');
+  });
+
+  afterAll(() => {
+    Object.assign(config.scripted, originalScripted);
+  });
+
+  beforeEach(() => {
+    fetchTranscript = jest.fn().mockResolvedValue(transcript);
+    replies = [];
+    statusUpdates = [];
+    buttons = [];
+    channel = {
+      send: jest.fn(async (text: string, replyButtons?: any) => {
+        replies.push(text);
+        buttons.push(replyButtons);
+      }),
+      sendStatus: jest.fn(async (text: string) => {
+        replies.push(text);
+        return {
+          update: async (newText: string, replyButtons?: any) => {
+            statusUpdates.push(newText);
+            buttons.push(replyButtons);
+          },
+        };
+      }),
+      showTyping: jest.fn().mockResolvedValue(undefined),
+    };
+    service = createService();
+  });
+
+  afterEach(() => {
+    contextManager.close();
+  });
+
+  it('should summarize a linked video and then answer questions about it', async () => {
+    await service.handleMessage({ userId: 'user1', text: 'https://youtu.be/dQw4w9WgXcQ' }, channel);
+
+    expect(fetchTranscript).toHaveBeenCalledWith('dQw4w9WgXcQ');
+    expect(replies[0]).toBe('⏳ Fetching transcript...');
+    expect(statusUpdates[statusUpdates.length - 1]).toContain('🎥 Caching 101');
+    expect(replies[1]).toContain('You can now ask questions');
+
+    replies = [];
+    await service.handleMessage({ userId: 'user1', text: 'When do entries expire?' }, channel);
+
+    expect(channel.showTyping).toHaveBeenCalled();
+    expect(replies).toHaveLength(1);
+    expect(replies[0]).toContain('Entries expire after a TTL so stale data is dropped.');
+  });
+
+  it('should send the summary as a new message when the status cannot be edited', async () => {
+    channel.sendStatus = jest.fn(async (text: string) => {
+      replies.push(text);
+      return { update: jest.fn().mockRejectedValue(new Error('429 Too Many Requests')) };
+    });
+
+    await service.handleMessage({ userId: 'user1', text: 'https://youtu.be/dQw4w9WgXcQ' }, channel);
+
+    expect(replies[1]).toContain('🎥 Caching 101');
+    expect(replies[2]).toContain('You can now ask questions');
+  });
+
+  it('should put action buttons under summaries', async () => {
+    await service.handleMessage({ userId: 'user1', text: 'https://youtu.be/dQw4w9WgXcQ' }, channel);
+
+    const commands = buttons[0].flat().map((button: any) => button.command);
+    expect(commands).toEqual(['/actionpoints', '/translate', '/summary detailed', '/clear']);
+  });
+
+  it('should offer a language picker and translate the summary', async () => {
+    await service.handleMessage({ userId: 'user1', text: 'https://youtu.be/dQw4w9WgXcQ' }, channel);
+    replies = [];
+    buttons = [];
+
+    await service.handleMessage({ userId: 'user1', text: '/translate' }, channel);
+    expect(replies[0]).toContain('Choose a language');
+    expect(buttons[0].flat()).toContainEqual({ text: 'Tamil', command: '/translate ta' });
+
+    await service.handleMessage({ userId: 'user1', text: '/translate ta' }, channel);
+    expect(replies[1]).toContain('🎥 Caching 101');
+    expect(buttons[1]).toHaveLength(2);
+    expect((await contextManager.getSession('user1'))?.language).toBe('ta');
+  });
+
+  it('should not show summary buttons without a session', async () => {
+    await service.handleMessage({ userId: 'user1', text: '/summary' }, channel);
+
+    expect(replies[0]).toContain('No active session');
+    expect(buttons[0]).toBeUndefined();
+  });
+
+  it('should answer commands', async () => {
+    await service.handleMessage({ userId: 'user1', text: '/start' }, channel);
+    await service.handleMessage({ userId: 'user1', text: '/nonsense' }, channel);
+
+    expect(replies[0]).toBe(service.getWelcomeMessage());
+    expect(replies[1]).toContain('Unknown command: /nonsense');
+  });
+
+  it('should escape an unknown command in the reply', async () => {
+    await service.handleMessage({ userId: 'user1', text: '/<b>oops' }, channel);
+
+    expect(replies[0]).toContain('Unknown command: /&lt;b&gt;oops');
+  });
+
+  it('should ask for a link before answering questions', async () => {
+    await service.handleMessage({ userId: 'user1', text: 'What is this about?' }, channel);
+
+    expect(replies).toHaveLength(1);
+    expect(fetchTranscript).not.toHaveBeenCalled();
+  });
+
+  it('should refuse videos over the quota without fetching them', async () => {
+    contextManager.close();
+    service = createService({ videosPerDay: 1, questionsPerHour: 5, tokensPerDay: 0 });
+
+    await service.handleMessage({ userId: 'user1', text: 'https://youtu.be/dQw4w9WgXcQ' }, channel);
+    replies = [];
+    await service.handleMessage({ userId: 'user1', text: 'https://youtu.be/dQw4w9WgXcQ' }, channel);
+
+    expect(fetchTranscript).toHaveBeenCalledTimes(1);
+    expect(channel.sendStatus).toHaveBeenCalledTimes(1);
+    expect(replies).toEqual([expect.stringContaining('limit of 1 videos per day')]);
+  });
+
+  it('should not count a video without a transcript', async () => {
+    contextManager.close();
+    service = createService({ videosPerDay: 1, questionsPerHour: 5, tokensPerDay: 0 });
+    fetchTranscript.mockRejectedValueOnce(Object.assign(new Error('No transcript'), { code: 'NO_TRANSCRIPT' }));
+
+    await service.handleMessage({ userId: 'user1', text: 'https://youtu.be/aaaaaaaaaaa' }, channel);
+    await service.handleMessage({ userId: 'user1', text: 'https://youtu.be/dQw4w9WgXcQ' }, channel);
+
+    expect(statusUpdates[statusUpdates.length - 1]).toContain('🎥 Caching 101');
+  });
+
+  it('should not count a video whose summary is already cached', async () => {
+    contextManager.close();
+    service = createService({ videosPerDay: 2, questionsPerHour: 5, tokensPerDay: 0 });
+
+    await service.handleMessage({ userId: 'user1', text: 'https://youtu.be/dQw4w9WgXcQ' }, channel);
+    await service.handleMessage({ userId: 'user1', text: 'https://youtu.be/dQw4w9WgXcQ' }, channel);
+
+    expect(quotaManager.checkVideo('user1').allowed).toBe(true);
+    expect(quotaManager.checkVideo('user1', 2).allowed).toBe(false);
+  });
+
+  it('should not count /askall without a question', async () => {
+    contextManager.close();
+    service = createService({ videosPerDay: 5, questionsPerHour: 1, tokensPerDay: 0 });
+
+    await service.handleMessage({ userId: 'user1', text: '/askall' }, channel);
+
+    expect(replies[0]).toContain('Please add a question');
+    expect(quotaManager.tryAskQuestion('user1').allowed).toBe(true);
+  });
+
+  it('should refuse AI commands once the daily tokens are used up', async () => {
+    contextManager.close();
+    service = createService({ videosPerDay: 5, questionsPerHour: 5, tokensPerDay: 100 });
+    await service.handleMessage({ userId: 'user1', text: 'https://youtu.be/dQw4w9WgXcQ' }, channel);
+    quotaManager.addTokens('user1', 100);
+    replies = [];
+
+    await service.handleMessage({ userId: 'user1', text: '/summary detailed' }, channel);
+    await service.handleMessage({ userId: 'user1', text: '/actionpoints' }, channel);
+    await service.handleMessage({ userId: 'user1', text: '/help' }, channel);
+
+    expect(replies[0]).toContain("today's AI allowance");
+    expect(replies[1]).toContain("today's AI allowance");
+    expect(replies[2]).not.toContain("today's AI allowance");
+  });
+
+  it('should count links passed to /compare as videos', async () => {
+    contextManager.close();
+    service = createService({ videosPerDay: 1, questionsPerHour: 5, tokensPerDay: 0 });
+
+    const links = 'https://youtu.be/dQw4w9WgXcQ https://youtu.be/aaaaaaaaaaa';
+    await service.handleMessage({ userId: 'user1', text: `/compare ${links}` }, channel);
+
+    expect(replies).toEqual([expect.stringContaining('limit of 1 videos per day')]);
+    expect(fetchTranscript).not.toHaveBeenCalled();
+  });
+
+  it('should explain /compare usage without saying it is comparing', async () => {
+    await service.handleMessage({ userId: 'user1', text: '/compare foo' }, channel);
+
+    expect(replies).toEqual([expect.stringContaining('/compare 1 2')]);
+  });
+
+  it('should replace the status message with transcript errors', async () => {
+    fetchTranscript.mockRejectedValue(Object.assign(new Error('No transcript'), { code: 'NO_TRANSCRIPT' }));
+
+    await service.handleMessage({ userId: 'user1', text: 'https://youtu.be/dQw4w9WgXcQ' }, channel);
+
+    expect(replies).toEqual(['⏳ Fetching transcript...']);
+    expect(statusUpdates).toEqual(['❌ Transcript not available for this video.']);
+  });
+
+  describe('Inline queries', () => {
+    it('should answer a link with its summary and cache it by video and language', async () => {
+      const answer = await service.handleInlineQuery({ userId: 'user1', text: ' https://youtu.be/dQw4w9WgXcQ ' }, 5000);
+
+      expect(answer.final).toBe(true);
+      expect(answer.results).toHaveLength(1);
+      expect(answer.results[0].title).toBe('Caching 101');
+      expect(answer.results[0].text).toContain('🎥 Caching 101');
+      expect(contextManager.getCachedSummary('dQw4w9WgXcQ', 'en')).not.toBeNull();
+      expect(contextManager.getCachedSummary('dQw4w9WgXcQ', 'ta')).toBeNull();
+      expect(await contextManager.getSession('user1')).toBeNull();
+    });
+
+    it('should reuse summaries generated in a chat', async () => {
+      await service.handleMessage({ userId: 'user1', text: 'https://youtu.be/dQw4w9WgXcQ' }, channel);
+
+      const answer = await service.handleInlineQuery({ userId: 'user2', text: 'https://youtu.be/dQw4w9WgXcQ' }, 0);
+
+      expect(answer.final).toBe(true);
+      expect(answer.results[0].text).toBe(statusUpdates[statusUpdates.length - 1]);
+      expect(fetchTranscript).toHaveBeenCalledTimes(1);
+    });
+
+    it('should answer with a placeholder while a slow summary keeps generating', async () => {
+      let finishFetch: (value: Transcript) => void = () => undefined;
+      fetchTranscript.mockReturnValue(new Promise((resolve) => {
+        finishFetch = resolve;
+      }));
+
+      const first = await service.handleInlineQuery({ userId: 'user1', text: 'https://youtu.be/dQw4w9WgXcQ' }, 10);
+      expect(first.final).toBe(false);
+      expect(first.results[0].title).toContain('Summarizing');
+
+      const second = service.handleInlineQuery({ userId: 'user1', text: 'https://youtu.be/dQw4w9WgXcQ' }, 5000);
+      finishFetch(transcript);
+
+      expect((await second).results[0].title).toBe('Caching 101');
+      expect(fetchTranscript).toHaveBeenCalledTimes(1);
+    });
+
+    it('should count generated summaries towards the video quota', async () => {
+      contextManager.close();
+      service = createService({ videosPerDay: 1, questionsPerHour: 5, tokensPerDay: 0 });
+
+      await service.handleInlineQuery({ userId: 'user1', text: 'https://youtu.be/dQw4w9WgXcQ' }, 5000);
+      const cached = await service.handleInlineQuery({ userId: 'user1', text: 'https://youtu.be/dQw4w9WgXcQ' }, 5000);
+      const refused = await service.handleInlineQuery({ userId: 'user1', text: 'https://youtu.be/aaaaaaaaaaa' }, 5000);
+
+      expect(cached.results[0].title).toBe('Caching 101');
+      expect(refused.final).toBe(false);
+      expect(refused.results[0].description).toContain('limit of 1 videos per day');
+      expect(fetchTranscript).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report errors and ignore queries without a link', async () => {
+      fetchTranscript.mockRejectedValue(Object.assign(new Error('No transcript'), { code: 'NO_TRANSCRIPT' }));
+
+      const failed = await service.handleInlineQuery({ userId: 'user1', text: 'https://youtu.be/dQw4w9WgXcQ' }, 5000);
+      const empty = await service.handleInlineQuery({ userId: 'user1', text: 'caching talk' }, 5000);
+
+      expect(failed.results[0].description).toBe('Transcript not available for this video.');
+      expect(failed.final).toBe(false);
+      expect(empty).toEqual({ results: [], final: true });
+    });
+  });
+
+  describe('CliAdapter', () => {
+    it('should send each line as a message and write the replies', async () => {
+      const input = new PassThrough();
+      const output = new PassThrough();
+      let written = '';
+      output.on('data', (chunk) => {
+        written += chunk.toString();
+      });
+
+      const done = new CliAdapter(service, input, output, 'local').start();
+      input.end('/start\n\n/quit\n/help\n');
+      await done;
+
+      expect(written).toContain(toPlainText(service.getWelcomeMessage()));
+      expect(written).toContain('/switch <n> - Continue with another video');
+      expect(written).not.toContain('Available Commands');
+      expect(await contextManager.getSession('local')).toBeNull();
+    });
+  });
+});
@@ -162,6 +162,18 @@ describe('LanguageProcessor', () => {
         expect(mockGenerateCompletion).toHaveBeenCalled();
       });
 
+      test('should translate with the injected AI provider', async () => {
+        const injected = jest.fn().mockResolvedValue({ content: JSON.stringify({ translation: 'यह उत्तर है' }) });
+        const processor = new LanguageProcessor({ generateCompletion: injected });
+
+        const result = await processor.translateAnswer('This is the answer', 'hi');
+
+        expect(result).toBe('यह उत्तर है');
+        expect(injected).toHaveBeenCalledTimes(1);
+        expect(injected).toHaveBeenCalledWith(expect.any(String), expect.any(String), 0.3, { task: 'translation' });
+        expect(mockGenerateCompletion).not.toHaveBeenCalled();
+      });
+
       test('should handle translation errors', async () => {
         const answer = 'This is the answer';
 
@@ -190,6 +202,13 @@ describe('LanguageProcessor', () => {
         expect(languageProcessor.getLanguageName('ta')).toBe('Tamil');
         expect(languageProcessor.getLanguageName('unknown')).toBe('Unknown');
       });
+
+      test('should find languages by code or name', () => {
+        expect(languageProcessor.findLanguage('hi')).toBe('hi');
+        expect(languageProcessor.findLanguage(' Tamil ')).toBe('ta');
+        expect(languageProcessor.findLanguage('klingon')).toBeNull();
+        expect(languageProcessor.findLanguage('')).toBeNull();
+      });
     });
   });
 
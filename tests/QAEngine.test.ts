@@ -1,5 +1,6 @@
 import { QAEngine } from '../src/components/QAEngine';
 import { Transcript, QA } from '../src/models';
+import { Embedder, HashingEmbedder } from '../src/utils/embeddings';
 import * as fc from 'fast-check';
 
 // Mock AI Provider
@@ -70,6 +71,7 @@ describe('QAEngine', () => {
         video_id: 'test123',
         title: 'Test Video',
         text: 'Machine learning is a subset of artificial intelligence. It uses algorithms to learn from data.',
+        segments: [],
         language: 'en',
         duration: 600,
         fetched_at: new Date(),
@@ -81,7 +83,7 @@ describe('QAEngine', () => {
 
       const answer = await qaEngine.answerQuestion('What is machine learning?', transcript);
 
-      expect(answer).toBeTruthy();
+      expect(answer.answer).toBeTruthy();
       expect(mockGenerateCompletion).toHaveBeenCalled();
     });
 
@@ -90,6 +92,7 @@ describe('QAEngine', () => {
         video_id: 'test123',
         title: 'Test Video',
         text: 'This video is about cooking recipes and food preparation.',
+        segments: [],
         language: 'en',
         duration: 600,
         fetched_at: new Date(),
@@ -97,7 +100,8 @@ describe('QAEngine', () => {
 
       const answer = await qaEngine.answerQuestion('What is machine learning?', transcript);
 
-      expect(answer).toBe('This topic is not covered in the video.');
+      expect(answer.answer).toBe('This topic is not covered in the video.');
+      expect(answer.citations).toEqual([]);
     });
 
     test('should include conversation history in prompt', async () => {
@@ -105,6 +109,7 @@ describe('QAEngine', () => {
         video_id: 'test123',
         title: 'Test Video',
         text: 'Machine learning uses algorithms. Deep learning is a type of machine learning.',
+        segments: [],
         language: 'en',
         duration: 600,
         fetched_at: new Date(),
@@ -124,7 +129,7 @@ describe('QAEngine', () => {
 
       const answer = await qaEngine.answerQuestion('What is deep learning?', transcript, history);
 
-      expect(answer).toBeTruthy();
+      expect(answer.answer).toBeTruthy();
       expect(mockGenerateCompletion).toHaveBeenCalled();
       
       // Check that history was included in the prompt
@@ -139,6 +144,7 @@ describe('QAEngine', () => {
         video_id: 'test123',
         title: 'Test Video',
         text: 'Machine learning content here. This is about algorithms and data science.',
+        segments: [],
         language: 'en',
         duration: 600,
         fetched_at: new Date(),
@@ -167,11 +173,33 @@ describe('QAEngine', () => {
       expect(userPrompt).not.toContain('Question 0');
     });
 
+    test('should answer with the injected AI provider', async () => {
+      const injected = jest.fn().mockResolvedValue({ content: JSON.stringify({ answer: 'Injected answer.', sources: [1] }) });
+      const engine = new QAEngine({ generateCompletion: injected }, 'lexical');
+      const transcript: Transcript = {
+        video_id: 'test123',
+        title: 'Test Video',
+        text: 'machine learning is a subset of artificial intelligence',
+        segments: [],
+        language: 'en',
+        duration: 60,
+        fetched_at: new Date(),
+      };
+
+      const answer = await engine.answerQuestion('What is machine learning?', transcript);
+
+      expect(answer.answer).toBe('Injected answer.');
+      expect(injected).toHaveBeenCalledTimes(1);
+      expect(injected).toHaveBeenCalledWith(expect.any(String), expect.any(String), 0.3, { task: 'qa' });
+      expect(mockGenerateCompletion).not.toHaveBeenCalled();
+    });
+
     test('should handle API errors', async () => {
       const transcript: Transcript = {
         video_id: 'test123',
         title: 'Test Video',
         text: 'Machine learning content about algorithms and data.',
+        segments: [],
         language: 'en',
         duration: 600,
         fetched_at: new Date(),
@@ -181,6 +209,279 @@ describe('QAEngine', () => {
 
       await expect(qaEngine.answerQuestion('machine learning', transcript)).rejects.toThrow('API Error');
     });
+
+    test('should match inflected forms of question words', () => {
+      const chunks = [
+        { text: 'The speaker discusses the weather', startIndex: 0, endIndex: 5 },
+        { text: 'We cached the responses to optimize throughput', startIndex: 5, endIndex: 12 },
+      ];
+
+      const relevantChunks = qaEngine.findRelevantChunks('How does caching optimization work?', chunks);
+
+      expect(relevantChunks).toHaveLength(1);
+      expect(relevantChunks[0]).toBe(chunks[1]);
+    });
+
+    test('should index each transcript only once per video', async () => {
+      const transcript: Transcript = {
+        video_id: 'test123',
+        title: 'Test Video',
+        text: 'Machine learning content about algorithms and data.',
+        segments: [],
+        language: 'en',
+        duration: 600,
+        fetched_at: new Date(),
+      };
+      const chunkSpy = jest.spyOn(qaEngine, 'chunkTranscript');
+
+      mockGenerateCompletion.mockResolvedValue({
+        content: JSON.stringify({ answer: 'Algorithms.' }),
+      });
+
+      await qaEngine.answerQuestion('machine learning', transcript);
+      await qaEngine.answerQuestion('algorithms', transcript);
+
+      expect(chunkSpy).toHaveBeenCalledTimes(1);
+    });
+
+    test('should retrieve chunks by embedding similarity in semantic mode', async () => {
+      // Maps "vehicles" and "cars" onto the same direction, like a synonym-aware model
+      const synonymEmbedder: Embedder = {
+        embedDocuments: async (texts) => texts.map((text) => (/car/.test(text) ? [1, 0] : [0, 1])),
+        embedQuery: async (text) => (/car|vehicle/.test(text) ? [1, 0] : [0, 1]),
+      };
+      const semanticEngine = new QAEngine({ generateCompletion: mockGenerateCompletion }, 'semantic', synonymEmbedder);
+      const transcript: Transcript = {
+        video_id: 'semantic1',
+        title: 'Test Video',
+        text: Array(450).fill('cooking').join(' ') + ' ' + Array(450).fill('cars').join(' '),
+        segments: [],
+        language: 'en',
+        duration: 600,
+        fetched_at: new Date(),
+      };
+
+      mockGenerateCompletion.mockResolvedValue({
+        content: JSON.stringify({ answer: 'Electric cars are covered.' }),
+      });
+
+      const answer = await semanticEngine.answerQuestion('Which vehicles are discussed?', transcript);
+
+      expect(answer.answer).toBe('Electric cars are covered.');
+      const userPrompt = mockGenerateCompletion.mock.calls[0][1];
+      expect(userPrompt).toContain('cars');
+    });
+
+    test('should fuse lexical and semantic rankings in hybrid mode', async () => {
+      const hybridEngine = new QAEngine({ generateCompletion: mockGenerateCompletion }, 'hybrid', new HashingEmbedder());
+      const transcript: Transcript = {
+        video_id: 'hybrid1',
+        title: 'Test Video',
+        text: 'Cache invalidation is one of the hard problems in computer science.',
+        segments: [],
+        language: 'en',
+        duration: 600,
+        fetched_at: new Date(),
+      };
+
+      mockGenerateCompletion.mockResolvedValue({
+        content: JSON.stringify({ answer: 'Invalidation is hard.' }),
+      });
+
+      const answer = await hybridEngine.answerQuestion('Why is cache invalidation hard?', transcript);
+
+      expect(answer.answer).toBe('Invalidation is hard.');
+      expect(mockGenerateCompletion).toHaveBeenCalled();
+    });
+
+    test('should embed each transcript only once per video', async () => {
+      const embedder = new HashingEmbedder();
+      const embedSpy = jest.spyOn(embedder, 'embedDocuments');
+      const semanticEngine = new QAEngine({ generateCompletion: mockGenerateCompletion }, 'semantic', embedder);
+      const transcript: Transcript = {
+        video_id: 'semantic2',
+        title: 'Test Video',
+        text: 'Machine learning content about algorithms and data.',
+        segments: [],
+        language: 'en',
+        duration: 600,
+        fetched_at: new Date(),
+      };
+
+      mockGenerateCompletion.mockResolvedValue({
+        content: JSON.stringify({ answer: 'Algorithms.' }),
+      });
+
+      await semanticEngine.answerQuestion('machine learning algorithms', transcript);
+      await semanticEngine.answerQuestion('learning from data', transcript);
+
+      expect(embedSpy).toHaveBeenCalledTimes(1);
+    });
+
+    test('should attach timing to chunks of timed transcripts', () => {
+      const segments = [
+        { text: 'machine learning basics', offset: 10, duration: 5 },
+        { text: 'neural networks explained', offset: 15, duration: 6 },
+      ];
+      const chunks = qaEngine.chunkTranscript(segments.map((s) => s.text).join(' '), segments);
+
+      expect(chunks).toHaveLength(1);
+      expect(chunks[0].startTime).toBe(10);
+      expect(chunks[0].endTime).toBe(21);
+    });
+
+    test('should keep timing when segments start or end with whitespace', () => {
+      const segments = [
+        { text: '\nwelcome to the show', offset: 0, duration: 4 },
+        { text: 'caching is hard ', offset: 4, duration: 5 },
+      ];
+      const chunks = qaEngine.chunkTranscript(segments.map((s) => s.text).join(' '), segments);
+
+      expect(chunks).toHaveLength(1);
+      expect(chunks[0].text).toBe('welcome to the show caching is hard');
+      expect(chunks[0].startTime).toBe(0);
+      expect(chunks[0].endTime).toBe(9);
+    });
+
+    test('should return citations for the chunks the model cites', async () => {
+      const segments = Array(3)
+        .fill(null)
+        .map((_, i) => ({
+          text: `${i === 2 ? 'gradient descent' : 'cooking recipes'} ${Array(449).fill('filler').join(' ')}`,
+          offset: i * 120,
+          duration: 120,
+        }));
+      const transcript: Transcript = {
+        video_id: 'dQw4w9WgXcQ',
+        title: 'Test Video',
+        text: segments.map((s) => s.text).join(' '),
+        segments,
+        language: 'en',
+        duration: 360,
+        fetched_at: new Date(),
+      };
+
+      mockGenerateCompletion.mockResolvedValue({
+        content: JSON.stringify({ answer: 'Gradient descent is explained.', sources: [1] }),
+      });
+
+      const answer = await qaEngine.answerQuestion('What about gradient descent?', transcript);
+
+      expect(answer.answer).toBe('Gradient descent is explained.');
+      expect(answer.citations).toHaveLength(1);
+      expect(answer.citations[0].start_time).toBeLessThanOrEqual(240);
+      expect(answer.citations[0].end_time).toBe(360);
+
+      const userPrompt = mockGenerateCompletion.mock.calls[0][1];
+      expect(userPrompt).toContain('[1] (');
+      expect(userPrompt).toContain('"sources"');
+    });
+
+    test('should format answer with clickable timestamp links', () => {
+      const formatted = qaEngine.formatAnswer(
+        {
+          answer: 'Caching is covered.',
+          citations: [{ start_time: 135.7, end_time: 180 }],
+        },
+        'dQw4w9WgXcQ'
+      );
+
+      expect(formatted).toContain('Caching is covered.');
+      expect(formatted).toContain('📍 Sources:');
+      expect(formatted).toContain('<a href="https://youtu.be/dQw4w9WgXcQ?t=135">2:15 - 3:00</a>');
+    });
+
+    test('should escape markup in answers', () => {
+      const formatted = qaEngine.formatAnswer({ answer: 'Use <div> & <span>', citations: [] }, 'dQw4w9WgXcQ');
+
+      expect(formatted).toBe('Use &lt;div&gt; &amp; &lt;span&gt;');
+    });
+
+    describe('answerAcrossVideos', () => {
+      const createTimedTranscript = (videoId: string, title: string, topic: string): Transcript => {
+        const segments = [
+          { text: `introduction ${Array(20).fill('welcome').join(' ')}`, offset: 0, duration: 30 },
+          { text: `${topic} ${Array(20).fill('detail').join(' ')}`, offset: 30, duration: 30 },
+        ];
+        return {
+          video_id: videoId,
+          title,
+          text: segments.map((s) => s.text).join(' '),
+          segments,
+          language: 'en',
+          duration: 60,
+          fetched_at: new Date(),
+        };
+      };
+
+      test('should attribute claims to the videos and times of the cited passages', async () => {
+        const transcripts = [
+          createTimedTranscript('videoAAAAAA1', 'Talk A', 'caching with redis'),
+          createTimedTranscript('videoBBBBBB2', 'Talk B', 'caching at the edge'),
+        ];
+
+        mockGenerateCompletion.mockResolvedValue({
+          content: JSON.stringify({ answer: 'A uses Redis [1]. B caches at the edge [2].', sources: [1, 2] }),
+        });
+
+        const answer = await qaEngine.answerAcrossVideos('What about caching?', transcripts);
+
+        const userPrompt = mockGenerateCompletion.mock.calls[0][1];
+        expect(userPrompt).toContain('[1] "Talk A" (0:00 - 1:00)');
+        expect(userPrompt).toContain('[2] "Talk B" (0:00 - 1:00)');
+        expect(answer.answer).toBe('A uses Redis [1]. B caches at the edge [2].');
+        expect(answer.citations).toEqual([
+          { start_time: 0, end_time: 60, video_id: 'videoAAAAAA1' },
+          { start_time: 0, end_time: 60, video_id: 'videoBBBBBB2' },
+        ]);
+      });
+
+      test('should drop markers of passages that were not cited', async () => {
+        const transcripts = [
+          createTimedTranscript('videoAAAAAA1', 'Talk A', 'caching with redis'),
+          createTimedTranscript('videoBBBBBB2', 'Talk B', 'caching at the edge'),
+        ];
+
+        mockGenerateCompletion.mockResolvedValue({
+          content: JSON.stringify({ answer: 'Only one talk covers it [2] [7].', sources: [2] }),
+        });
+
+        const answer = await qaEngine.answerAcrossVideos('What about caching?', transcripts);
+
+        expect(answer.answer).toBe('Only one talk covers it [1].');
+        expect(answer.citations).toHaveLength(1);
+      });
+
+      test('should return "not covered" without calling the model when no video matches', async () => {
+        const transcripts = [createTimedTranscript('videoAAAAAA1', 'Talk A', 'caching with redis')];
+
+        const answer = await qaEngine.answerAcrossVideos('quantum chromodynamics', transcripts);
+
+        expect(answer.answer).toContain('not covered');
+        expect(answer.citations).toEqual([]);
+        expect(mockGenerateCompletion).not.toHaveBeenCalled();
+      });
+
+      test('should format sources with video titles and links', () => {
+        const transcripts = [createTimedTranscript('videoAAAAAA1', 'Talk A', 'caching')];
+        const formatted = qaEngine.formatCrossVideoAnswer(
+          {
+            answer: 'Redis is used [1].',
+            citations: [{ start_time: 30, end_time: 60, video_id: 'videoAAAAAA1' }],
+          },
+          transcripts
+        );
+
+        expect(formatted).toContain('Redis is used [1].');
+        expect(formatted).toContain('[1] Talk A\n    <a href="https://youtu.be/videoAAAAAA1?t=30">0:30 - 1:00</a>');
+      });
+    });
+
+    test('should format answer without sources when there are no citations', () => {
+      const formatted = qaEngine.formatAnswer({ answer: 'No idea.', citations: [] }, 'dQw4w9WgXcQ');
+
+      expect(formatted).toBe('No idea.');
+    });
   });
 
   describe('Property-Based Tests', () => {
@@ -196,6 +497,7 @@ describe('QAEngine', () => {
             video_id: fc.string({ minLength: 1, maxLength: 20 }),
             title: fc.string({ minLength: 1, maxLength: 100 }),
             text: fc.string({ minLength: 50, maxLength: 200 }),
+            segments: fc.constant([]),
             language: fc.constantFrom('en', 'hi', 'ta'),
             duration: fc.integer({ min: 60, max: 3600 }),
             fetched_at: fc.date(),
@@ -211,8 +513,9 @@ describe('QAEngine', () => {
             const answer = await qaEngine.answerQuestion(question, transcript);
 
             // Property: Answer must be a non-empty string
-            expect(typeof answer).toBe('string');
-            expect(answer.length).toBeGreaterThan(0);
+            expect(typeof answer.answer).toBe('string');
+            expect(answer.answer.length).toBeGreaterThan(0);
+            expect(Array.isArray(answer.citations)).toBe(true);
           }
         ),
         { numRuns: 50 }
@@ -0,0 +1,115 @@
+import { QuotaManager, QuotaLimits } from '../src/components/QuotaManager';
+import { MemoryStorage } from '../src/storage';
+
+describe('QuotaManager - Unit Tests', () => {
+  const limits: QuotaLimits = { videosPerDay: 2, questionsPerHour: 3, tokensPerDay: 1000 };
+  const HOUR_MS = 60 * 60 * 1000;
+  let now: number;
+  let storage: MemoryStorage;
+  let quotas: QuotaManager;
+
+  beforeEach(() => {
+    now = Date.parse('2024-01-01T10:00:00Z');
+    storage = new MemoryStorage();
+    quotas = new QuotaManager(storage, limits, ['admin1'], () => now);
+  });
+
+  it('should allow videos up to the daily limit and say when to try again', () => {
+    expect(quotas.tryAddVideo('user1').allowed).toBe(true);
+    now += HOUR_MS;
+    expect(quotas.tryAddVideo('user1').allowed).toBe(true);
+
+    const refused = quotas.tryAddVideo('user1');
+    expect(refused.allowed).toBe(false);
+    expect(refused.message).toContain('limit of 2 videos per day');
+    expect(refused.message).toContain('try again in 23 h');
+  });
+
+  it('should start a new window once the previous one has ended', () => {
+    quotas.tryAddVideo('user1');
+    quotas.tryAddVideo('user1');
+
+    now += 24 * HOUR_MS;
+
+    expect(quotas.tryAddVideo('user1').allowed).toBe(true);
+  });
+
+  it('should limit questions per hour separately for each user', () => {
+    for (let i = 0; i < 3; i++) {
+      expect(quotas.tryAskQuestion('user1').allowed).toBe(true);
+    }
+
+    now += 15 * 60 * 1000;
+    const refused = quotas.tryAskQuestion('user1');
+    expect(refused.allowed).toBe(false);
+    expect(refused.message).toContain('limit of 3 questions per hour');
+    expect(refused.message).toContain('try again in 45 min');
+
+    expect(quotas.tryAskQuestion('user2').allowed).toBe(true);
+  });
+
+  it('should refuse videos and questions once the daily tokens are used up', () => {
+    quotas.addTokens('user1', 600);
+    expect(quotas.tryAskQuestion('user1').allowed).toBe(true);
+
+    quotas.addTokens('user1', 600);
+    const refused = quotas.tryAddVideo('user1');
+    expect(refused.allowed).toBe(false);
+    expect(refused.message).toContain("today's AI allowance");
+    expect(quotas.tryAskQuestion('user1').allowed).toBe(false);
+  });
+
+  it('should count several videos at once only when all fit', () => {
+    expect(quotas.tryAddVideo('user1').allowed).toBe(true);
+
+    expect(quotas.tryAddVideo('user1', 2).allowed).toBe(false);
+    expect(quotas.tryAddVideo('user1').allowed).toBe(true);
+  });
+
+  it('should check videos without counting them until they are added', () => {
+    expect(quotas.checkVideo('user1', 2).allowed).toBe(true);
+    expect(quotas.checkVideo('user1', 2).allowed).toBe(true);
+
+    quotas.addVideo('user1');
+
+    expect(quotas.checkVideo('user1', 2).allowed).toBe(false);
+    expect(quotas.checkVideo('user1').allowed).toBe(true);
+  });
+
+  it('should check the daily tokens without counting a video or question', () => {
+    expect(quotas.checkTokens('user1').allowed).toBe(true);
+
+    quotas.addTokens('user1', 1000);
+    const refused = quotas.checkTokens('user1');
+
+    expect(refused.allowed).toBe(false);
+    expect(refused.message).toContain("today's AI allowance");
+    expect(quotas.checkTokens('admin1').allowed).toBe(true);
+  });
+
+  it('should not limit exempt users', () => {
+    quotas.addTokens('admin1', 5000);
+
+    for (let i = 0; i < 5; i++) {
+      expect(quotas.tryAddVideo('admin1').allowed).toBe(true);
+    }
+  });
+
+  it('should not enforce limits set to 0', () => {
+    quotas = new QuotaManager(storage, { videosPerDay: 0, questionsPerHour: 0, tokensPerDay: 0 }, [], () => now);
+    quotas.addTokens('user1', 5000);
+
+    for (let i = 0; i < 5; i++) {
+      expect(quotas.tryAddVideo('user1').allowed).toBe(true);
+    }
+  });
+
+  it('should keep counting with the counters already in the store', () => {
+    quotas.tryAddVideo('user1');
+    quotas.tryAddVideo('user1');
+
+    const restarted = new QuotaManager(storage, limits, [], () => now);
+
+    expect(restarted.tryAddVideo('user1').allowed).toBe(false);
+  });
+});
@@ -1,21 +1,34 @@
 import { Summarizer } from '../src/components/Summarizer';
 import { Transcript, Summary } from '../src/models';
+import { escapeHtml, toPlainText } from '../src/utils/telegramHtml';
+import { AIProvider } from '../src/utils/aiProvider';
 import * as fc from 'fast-check';
 
-// Mock OpenAI
+// OpenAI chat completions call; tests script its responses
 const mockCreate = jest.fn();
-jest.mock('openai', () => {
-  return {
-    __esModule: true,
-    default: jest.fn().mockImplementation(() => ({
-      chat: {
-        completions: {
-          create: mockCreate,
-        },
-      },
-    })),
-  };
-});
+
+/**
+ * Provider that sends requests like the OpenAI one, so the suite needs no API key
+ */
+const openAIStub: AIProvider = {
+  async generateCompletion(systemPrompt: string, userPrompt: string, temperature: number = 0.3) {
+    const response = await mockCreate({
+      model: 'gpt-4-turbo-preview',
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt },
+      ],
+      temperature,
+      response_format: { type: 'json_object' },
+    });
+
+    const content = response.choices[0].message.content;
+    if (!content) {
+      throw new Error('Empty response from OpenAI');
+    }
+    return { content };
+  },
+};
 
 describe('Summarizer', () => {
   let summarizer: Summarizer;
@@ -26,7 +39,7 @@ describe('Summarizer', () => {
     mockCreate.mockReset();
     
     // Create summarizer instance
-    summarizer = new Summarizer();
+    summarizer = new Summarizer(openAIStub);
   });
 
   describe('Unit Tests', () => {
@@ -35,6 +48,7 @@ describe('Summarizer', () => {
         video_id: 'test123',
         title: 'Test Video',
         text: 'This is a test transcript about machine learning and AI.',
+        segments: [],
         language: 'en',
         duration: 600,
         fetched_at: new Date(),
@@ -74,6 +88,33 @@ describe('Summarizer', () => {
       expect(summary.core_takeaway).toBeTruthy();
     });
 
+    test('should summarize with the injected AI provider', async () => {
+      const injected = jest.fn().mockResolvedValue({
+        content: JSON.stringify({
+          key_points: ['1', '2', '3', '4', '5'],
+          timestamps: [{ time: '0:10', description: 'Intro' }],
+          core_takeaway: 'Takeaway',
+        }),
+      });
+      const injectedSummarizer = new Summarizer({ generateCompletion: injected });
+      const transcript: Transcript = {
+        video_id: 'test123',
+        title: 'Test Video',
+        text: 'Short transcript',
+        segments: [],
+        language: 'en',
+        duration: 60,
+        fetched_at: new Date(),
+      };
+
+      const summary = await injectedSummarizer.generateSummary(transcript);
+
+      expect(summary.core_takeaway).toBe('Takeaway');
+      expect(injected).toHaveBeenCalledTimes(1);
+      expect(injected).toHaveBeenCalledWith(expect.any(String), expect.any(String), 0.3, { task: 'summary' });
+      expect(mockCreate).not.toHaveBeenCalled();
+    });
+
     test('should format summary with emojis correctly', () => {
       const summary: Summary = {
         title: 'Test Video',
@@ -96,11 +137,28 @@ describe('Summarizer', () => {
       expect(formatted).toContain('• 0:30 - Intro');
     });
 
+    test('should link timestamps into the video and escape model output', () => {
+      const summary: Summary = {
+        title: 'Q&A <live>',
+        key_points: ['Use <b> sparingly'],
+        timestamps: [{ time: '2:15', description: 'Main' }],
+        core_takeaway: 'a < b & c',
+      };
+
+      const formatted = summarizer.formatSummary(summary, 'dQw4w9WgXcQ');
+
+      expect(formatted).toContain('<b>🎥 Q&amp;A &lt;live&gt;</b>');
+      expect(formatted).toContain('1. Use &lt;b&gt; sparingly');
+      expect(formatted).toContain('• <a href="https://youtu.be/dQw4w9WgXcQ?t=135">2:15</a> - Main');
+      expect(formatted).toContain('a &lt; b &amp; c');
+    });
+
     test('should handle different languages', async () => {
       const transcript: Transcript = {
         video_id: 'test123',
         title: 'Test Video',
         text: 'Test transcript',
+        segments: [],
         language: 'en',
         duration: 600,
         fetched_at: new Date(),
@@ -139,6 +197,7 @@ describe('Summarizer', () => {
         video_id: 'test123',
         title: 'Test Video',
         text: 'Test transcript',
+        segments: [],
         language: 'en',
         duration: 600,
         fetched_at: new Date(),
@@ -148,7 +207,8 @@ describe('Summarizer', () => {
         choices: [{ message: { content: null } }],
       });
 
-      await expect(summarizer.generateSummary(transcript)).rejects.toThrow('Empty response from OpenAI');
+      // Provider failures reach the user as a generic generation error
+      await expect(summarizer.generateSummary(transcript)).rejects.toMatchObject({ code: 'GENERATION_FAILED' });
     });
 
     test('should handle invalid JSON response', async () => {
@@ -156,6 +216,7 @@ describe('Summarizer', () => {
         video_id: 'test123',
         title: 'Test Video',
         text: 'Test transcript',
+        segments: [],
         language: 'en',
         duration: 600,
         fetched_at: new Date(),
@@ -173,6 +234,7 @@ describe('Summarizer', () => {
         video_id: 'test123',
         title: 'Test Video',
         text: 'Test transcript',
+        segments: [],
         language: 'en',
         duration: 600,
         fetched_at: new Date(),
@@ -180,7 +242,255 @@ describe('Summarizer', () => {
 
       mockCreate.mockRejectedValue(new Error('API Error'));
 
-      await expect(summarizer.generateSummary(transcript)).rejects.toThrow('API Error');
+      await expect(summarizer.generateSummary(transcript)).rejects.toMatchObject({ code: 'GENERATION_FAILED' });
+    });
+
+    test('should send time-annotated transcript to the model', async () => {
+      const transcript: Transcript = {
+        video_id: 'test123',
+        title: 'Test Video',
+        text: 'Welcome to the show Caching is hard',
+        segments: [
+          { text: 'Welcome to the show', offset: 0, duration: 4 },
+          { text: 'Caching is hard', offset: 135.4, duration: 3 },
+        ],
+        language: 'en',
+        duration: 135,
+        fetched_at: new Date(),
+      };
+
+      mockCreate.mockResolvedValue({
+        choices: [{ message: { content: JSON.stringify({ key_points: [], timestamps: [], core_takeaway: '' }) } }],
+      });
+
+      await summarizer.generateSummary(transcript);
+
+      const userPrompt = mockCreate.mock.calls[0][0].messages[1].content;
+      expect(userPrompt).toContain('[0:00] Welcome to the show');
+      expect(userPrompt).toContain('[2:15] Caching is hard');
+    });
+
+    test('should snap timestamps to segment starts and drop invalid ones', async () => {
+      const transcript: Transcript = {
+        video_id: 'test123',
+        title: 'Test Video',
+        text: 'Intro Main topic Wrap up',
+        segments: [
+          { text: 'Intro', offset: 0, duration: 10 },
+          { text: 'Main topic', offset: 62.5, duration: 30 },
+          { text: 'Wrap up', offset: 300, duration: 20 },
+        ],
+        language: 'en',
+        duration: 300,
+        fetched_at: new Date(),
+      };
+
+      mockCreate.mockResolvedValue({
+        choices: [
+          {
+            message: {
+              content: JSON.stringify({
+                key_points: ['1', '2', '3', '4', '5'],
+                timestamps: [
+                  { time: '5:05', description: 'Wrap up' },
+                  { time: '1:00', description: 'Main topic' },
+                  { time: '1:05', description: 'Duplicate of main topic' },
+                  { time: '45:00', description: 'Past the end' },
+                  { time: 'later', description: 'Not a time' },
+                  { time: '0:02', description: 'Intro' },
+                ],
+                core_takeaway: 'Takeaway',
+              }),
+            },
+          },
+        ],
+      });
+
+      const summary = await summarizer.generateSummary(transcript);
+
+      expect(summary.timestamps).toEqual([
+        { time: '0:00', description: 'Intro' },
+        { time: '1:02', description: 'Main topic' },
+        { time: '5:00', description: 'Wrap up' },
+      ]);
+    });
+
+    test('should compare two videos with times grounded in each transcript', async () => {
+      const createTranscript = (videoId: string, title: string): Transcript => ({
+        video_id: videoId,
+        title,
+        text: 'Intro Caching Wrap up',
+        segments: [
+          { text: 'Intro', offset: 0, duration: 60 },
+          { text: 'Caching', offset: 60, duration: 60 },
+          { text: 'Wrap up', offset: 120, duration: 60 },
+        ],
+        language: 'en',
+        duration: 180,
+        fetched_at: new Date(),
+      });
+      const reply = (content: object) => ({ choices: [{ message: { content: JSON.stringify(content) } }] });
+      const summaryReply = reply({
+        key_points: ['1', '2', '3', '4', '5'],
+        timestamps: [{ time: '1:00', description: 'Caching' }],
+        core_takeaway: 'Takeaway',
+      });
+
+      mockCreate
+        .mockResolvedValueOnce(summaryReply)
+        .mockResolvedValueOnce(summaryReply)
+        .mockResolvedValueOnce(reply({
+          shared_points: [{ point: 'Both cache responses', first_time: '1:05', second_time: '0:58' }],
+          unique_to_first: [{ point: 'Uses Redis', first_time: '2:01' }],
+          unique_to_second: [{ point: 'Uses a CDN', second_time: '99:00' }],
+          contradictions: [{ point: 'TTLs: short vs long', first_time: '1:00', second_time: '2:00' }, { point: '' }],
+        }));
+
+      const comparison = await summarizer.generateComparison(
+        createTranscript('aaaaaaaaaaa', 'Talk A'),
+        createTranscript('bbbbbbbbbbb', 'Talk B')
+      );
+
+      const comparisonPrompt = mockCreate.mock.calls[2][0].messages[1].content;
+      expect(comparisonPrompt).toContain('Video 1: Talk A');
+      expect(comparisonPrompt).toContain('Video 2: Talk B');
+      expect(comparison.shared_points).toEqual([{ point: 'Both cache responses', first_time: '1:00', second_time: '1:00' }]);
+      expect(comparison.unique_to_first).toEqual([{ point: 'Uses Redis', first_time: '2:00', second_time: undefined }]);
+      expect(comparison.unique_to_second).toEqual([{ point: 'Uses a CDN', first_time: undefined, second_time: undefined }]);
+      expect(comparison.contradictions).toHaveLength(1);
+
+      const formatted = summarizer.formatComparison(comparison);
+      expect(formatted).toContain('1️⃣ Talk A');
+      expect(formatted).toContain(
+        '<b>🤝 Shared Points:</b>\n• Both cache responses\n' +
+        '   1️⃣ <a href="https://youtu.be/aaaaaaaaaaa?t=60">1:00</a>\n' +
+        '   2️⃣ <a href="https://youtu.be/bbbbbbbbbbb?t=60">1:00</a>'
+      );
+      expect(formatted).toContain('<b>2️⃣ Only in Talk B:</b>\n• Uses a CDN\n');
+      expect(formatted).toContain('<b>⚡ Contradictions:</b>\n• TTLs: short vs long');
+    });
+
+    test('should report a parse error when the comparison is not JSON', async () => {
+      const transcript: Transcript = {
+        video_id: 'aaaaaaaaaaa',
+        title: 'Talk A',
+        text: 'Intro',
+        segments: [],
+        language: 'en',
+        duration: 60,
+        fetched_at: new Date(),
+      };
+      const summaryReply = {
+        choices: [{ message: { content: JSON.stringify({ key_points: [], timestamps: [], core_takeaway: '' }) } }],
+      };
+
+      mockCreate
+        .mockResolvedValueOnce(summaryReply)
+        .mockResolvedValueOnce(summaryReply)
+        .mockResolvedValueOnce({ choices: [{ message: { content: 'not json' } }] });
+
+      await expect(
+        summarizer.generateComparison(transcript, { ...transcript, video_id: 'bbbbbbbbbbb' })
+      ).rejects.toMatchObject({ code: 'PARSE_ERROR' });
+    });
+
+    test('should summarize long transcripts in parts and merge them', async () => {
+      const partText = 'word '.repeat(8000).trim();
+      const transcript: Transcript = {
+        video_id: 'test123',
+        title: 'Long Lecture',
+        text: [partText, partText, partText].join(' '),
+        segments: [
+          { text: partText, offset: 0, duration: 1200 },
+          { text: partText, offset: 1800, duration: 1200 },
+          { text: partText, offset: 3600, duration: 1200 },
+        ],
+        language: 'en',
+        duration: 3600,
+        fetched_at: new Date(),
+      };
+
+      const partial = (time: string) => ({
+        choices: [
+          {
+            message: {
+              content: JSON.stringify({
+                key_points: ['Part point'],
+                timestamps: [{ time, description: `Part at ${time}` }],
+                core_takeaway: 'Part takeaway',
+              }),
+            },
+          },
+        ],
+      });
+
+      mockCreate
+        .mockResolvedValueOnce(partial('0:00'))
+        .mockResolvedValueOnce(partial('30:00'))
+        .mockResolvedValueOnce(partial('1:00:00'))
+        .mockResolvedValueOnce({
+          choices: [
+            {
+              message: {
+                content: JSON.stringify({
+                  key_points: ['1', '2', '3', '4', '5'],
+                  timestamps: [
+                    { time: '0:00', description: 'Start' },
+                    { time: '30:00', description: 'Middle' },
+                    { time: '1:00:00', description: 'End' },
+                  ],
+                  core_takeaway: 'Whole video takeaway',
+                }),
+              },
+            },
+          ],
+        });
+
+      const onProgress = jest.fn();
+      const summary = await summarizer.generateSummary(transcript, 'en', onProgress);
+
+      expect(mockCreate).toHaveBeenCalledTimes(4);
+      expect(onProgress.mock.calls.map(([progress]) => progress)).toEqual([
+        { stage: 'summarizing_part', part: 1, total: 3 },
+        { stage: 'summarizing_part', part: 2, total: 3 },
+        { stage: 'summarizing_part', part: 3, total: 3 },
+        { stage: 'merging', total: 3 },
+      ]);
+      expect(mockCreate.mock.calls[0][0].messages[1].content).toContain('part 1 of 3');
+      const mergePrompt = mockCreate.mock.calls[3][0].messages[1].content;
+      expect(mergePrompt).toContain('Part 2 (30:00 - 50:00)');
+      expect(mergePrompt).toContain('30:00 Part at 30:00');
+
+      expect(summary.key_points).toHaveLength(5);
+      expect(summary.timestamps.map((ts) => ts.time)).toEqual(['0:00', '30:00', '1:00:00']);
+      expect(summary.core_takeaway).toBe('Whole video takeaway');
+    });
+
+    test('should fall back to map-reduce when the prompt exceeds the context window', async () => {
+      const transcript: Transcript = {
+        video_id: 'test123',
+        title: 'Test Video',
+        text: 'Short but dense transcript',
+        segments: [{ text: 'Short but dense transcript', offset: 0, duration: 10 }],
+        language: 'en',
+        duration: 10,
+        fetched_at: new Date(),
+      };
+
+      const draft = {
+        key_points: ['1', '2', '3', '4', '5'],
+        timestamps: [{ time: '0:00', description: 'Start' }],
+        core_takeaway: 'Takeaway',
+      };
+
+      mockCreate
+        .mockRejectedValueOnce(Object.assign(new Error('Too long'), { code: 'context_length_exceeded' }))
+        .mockResolvedValue({ choices: [{ message: { content: JSON.stringify(draft) } }] });
+
+      const summary = await summarizer.generateSummary(transcript);
+
+      expect(mockCreate).toHaveBeenCalledTimes(3);
+      expect(summary.core_takeaway).toBe('Takeaway');
     });
   });
 
@@ -197,6 +507,7 @@ describe('Summarizer', () => {
             video_id: fc.string({ minLength: 1, maxLength: 20 }),
             title: fc.string({ minLength: 1, maxLength: 100 }),
             text: fc.string({ minLength: 10, maxLength: 500 }),
+            segments: fc.constant([]),
             language: fc.constantFrom('en', 'hi', 'ta', 'te', 'kn', 'mr'),
             duration: fc.integer({ min: 60, max: 10800 }),
             fetched_at: fc.date(),
@@ -281,21 +592,24 @@ describe('Summarizer', () => {
             expect(formatted).toContain('🧠');
 
             // Property: Formatted message must contain title
-            expect(formatted).toContain(summary.title);
+            expect(formatted).toContain(escapeHtml(summary.title));
 
             // Property: Formatted message must contain all key points
             summary.key_points.forEach((point) => {
-              expect(formatted).toContain(point);
+              expect(formatted).toContain(escapeHtml(point));
             });
 
             // Property: Formatted message must contain all timestamps
             summary.timestamps.forEach((ts) => {
-              expect(formatted).toContain(ts.time);
-              expect(formatted).toContain(ts.description);
+              expect(formatted).toContain(escapeHtml(ts.time));
+              expect(formatted).toContain(escapeHtml(ts.description));
             });
 
             // Property: Formatted message must contain core takeaway
-            expect(formatted).toContain(summary.core_takeaway);
+            expect(formatted).toContain(escapeHtml(summary.core_takeaway));
+
+            // Property: Model output cannot add markup
+            expect(toPlainText(formatted)).toContain(summary.core_takeaway);
 
             // Property: Formatted message must have proper structure
             expect(formatted.indexOf('🎥')).toBeLessThan(formatted.indexOf('📌'));
@@ -307,7 +621,6 @@ describe('Summarizer', () => {
       );
     });
   });
-});
 
   describe('Error Handling Property Tests', () => {
     /**
@@ -324,6 +637,7 @@ describe('Summarizer', () => {
               video_id: 'test123',
               title: 'Long Video',
               text: 'Test transcript',
+              segments: [],
               language: 'en',
               duration,
               fetched_at: new Date(),
@@ -353,6 +667,7 @@ describe('Summarizer', () => {
               video_id: 'test123',
               title: 'Short Video',
               text: 'Test transcript',
+              segments: [],
               language: 'en',
               duration,
               fetched_at: new Date(),
@@ -0,0 +1,174 @@
+import { TelegramAdapter } from '../src/adapters/TelegramAdapter';
+import { ReplyChannel } from '../src/components/ConversationService';
+import { logger } from '../src/utils/logger';
+
+describe('TelegramAdapter - Unit Tests', () => {
+  let bot: any;
+  let reply: (channel: ReplyChannel) => Promise<void>;
+
+  const receive = async (adapter: TelegramAdapter) => {
+    adapter.start();
+    const onMessage = bot.on.mock.calls[0][1];
+    await onMessage({ chat: { id: 42 }, from: { id: 7 }, text: 'hello' });
+  };
+
+  const longReply = (parts: number) => Array.from({ length: parts }, (_, i) => `${i + 1}. ${'a'.repeat(3000)}`).join('\n');
+
+  beforeEach(() => {
+    bot = {
+      on: jest.fn(),
+      sendMessage: jest.fn().mockResolvedValue({ message_id: 100 }),
+      editMessageText: jest.fn().mockResolvedValue(true),
+      sendDocument: jest.fn().mockResolvedValue({}),
+      sendChatAction: jest.fn().mockResolvedValue(true),
+      answerCallbackQuery: jest.fn().mockResolvedValue(true),
+      answerInlineQuery: jest.fn().mockResolvedValue(true),
+    };
+  });
+
+  const createAdapter = (maxMessageParts: number) =>
+    new TelegramAdapter(bot, { handleMessage: (_message: any, channel: ReplyChannel) => reply(channel) } as any, maxMessageParts);
+
+  it('should send replies as HTML', async () => {
+    reply = (channel) => channel.send('<b>🎥 Title</b>');
+
+    await receive(createAdapter(0));
+
+    expect(bot.sendMessage).toHaveBeenCalledWith(42, '<b>🎥 Title</b>', { parse_mode: 'HTML' });
+  });
+
+  it('should resend as plain text when Telegram cannot parse the HTML', async () => {
+    bot.sendMessage.mockRejectedValueOnce(new Error("ETELEGRAM: 400 Bad Request: can't parse entities: unclosed tag"));
+    reply = (channel) => channel.send('<b>Q&amp;A</b> <a href="https://youtu.be/x?t=5">0:05</a>');
+
+    await receive(createAdapter(0));
+
+    expect(bot.sendMessage).toHaveBeenLastCalledWith(42, 'Q&A 0:05 https://youtu.be/x?t=5', {});
+  });
+
+  it('should log other delivery errors instead of throwing them', async () => {
+    const logError = jest.spyOn(logger, 'error').mockImplementation(() => undefined);
+    bot.sendMessage.mockRejectedValueOnce(new Error('ETELEGRAM: 403 Forbidden: bot was blocked by the user'));
+    reply = (channel) => channel.send('hello');
+
+    await expect(receive(createAdapter(0))).resolves.toBeUndefined();
+    expect(bot.sendMessage).toHaveBeenCalledTimes(1);
+    expect(logError).toHaveBeenCalledWith(
+      'Failed to deliver reply',
+      expect.objectContaining({ message: expect.stringContaining('403') }),
+      { chatId: 42 }
+    );
+    logError.mockRestore();
+  });
+
+  it('should attach buttons as an inline keyboard under the last part', async () => {
+    reply = (channel) => channel.send(longReply(2), [[{ text: '📋 Action points', command: '/actionpoints' }]]);
+
+    await receive(createAdapter(0));
+
+    expect(bot.sendMessage.mock.calls[0][2]).toEqual({ parse_mode: 'HTML' });
+    expect(bot.sendMessage.mock.calls[1][2]).toEqual({
+      parse_mode: 'HTML',
+      reply_markup: { inline_keyboard: [[{ text: '📋 Action points', callback_data: '/actionpoints' }]] },
+    });
+  });
+
+  it('should handle a pressed button like a typed command', async () => {
+    const handleMessage = jest.fn().mockResolvedValue(undefined);
+    new TelegramAdapter(bot, { handleMessage } as any, 0).start();
+    const onCallbackQuery = bot.on.mock.calls.find(([event]: [string]) => event === 'callback_query')[1];
+
+    await onCallbackQuery({ id: 'q1', from: { id: 7 }, message: { chat: { id: 42 } }, data: '/translate hi' });
+
+    expect(bot.answerCallbackQuery).toHaveBeenCalledWith('q1');
+    expect(handleMessage).toHaveBeenCalledWith({ userId: '7', text: '/translate hi' }, expect.anything());
+  });
+
+  it('should answer inline queries with articles posted as HTML', async () => {
+    const handleInlineQuery = jest.fn().mockResolvedValue({
+      results: [{ id: 'dQw4w9WgXcQ:en', title: 'Caching 101', description: 'Cache slow queries', text: '<b>🎥 Caching 101</b>' }],
+      final: true,
+    });
+    new TelegramAdapter(bot, { handleInlineQuery } as any, 0, 3000).start();
+    const onInlineQuery = bot.on.mock.calls.find(([event]: [string]) => event === 'inline_query')[1];
+
+    await onInlineQuery({ id: 'q1', from: { id: 7 }, query: 'https://youtu.be/dQw4w9WgXcQ' });
+
+    expect(handleInlineQuery).toHaveBeenCalledWith({ userId: '7', text: 'https://youtu.be/dQw4w9WgXcQ' }, 3000);
+    expect(bot.answerInlineQuery).toHaveBeenCalledWith(
+      'q1',
+      [{
+        type: 'article',
+        id: 'dQw4w9WgXcQ:en',
+        title: 'Caching 101',
+        description: 'Cache slow queries',
+        input_message_content: { message_text: '<b>🎥 Caching 101</b>', parse_mode: 'HTML' },
+      }],
+      { is_personal: true, cache_time: 300 }
+    );
+  });
+
+  it('should not let Telegram reuse placeholder inline answers', async () => {
+    bot.answerInlineQuery.mockRejectedValueOnce(new Error('ETELEGRAM: 400 Bad Request: query is too old'));
+    const handleInlineQuery = jest.fn().mockResolvedValue({ results: [], final: false });
+    new TelegramAdapter(bot, { handleInlineQuery } as any, 0).start();
+    const onInlineQuery = bot.on.mock.calls.find(([event]: [string]) => event === 'inline_query')[1];
+
+    await expect(onInlineQuery({ id: 'q1', from: { id: 7 }, query: 'https://youtu.be/dQw4w9WgXcQ' })).resolves.toBeUndefined();
+    expect(bot.answerInlineQuery).toHaveBeenCalledWith('q1', [], { is_personal: true, cache_time: 0 });
+  });
+
+  it('should handle a pressed button when Telegram refuses to answer the query', async () => {
+    bot.answerCallbackQuery.mockRejectedValueOnce(new Error('ETELEGRAM: 400 Bad Request: query is too old'));
+    const handleMessage = jest.fn().mockResolvedValue(undefined);
+    new TelegramAdapter(bot, { handleMessage } as any, 0).start();
+    const onCallbackQuery = bot.on.mock.calls.find(([event]: [string]) => event === 'callback_query')[1];
+
+    await expect(
+      onCallbackQuery({ id: 'q1', from: { id: 7 }, message: { chat: { id: 42 } }, data: '/actionpoints' })
+    ).resolves.toBeUndefined();
+    expect(handleMessage).toHaveBeenCalledWith({ userId: '7', text: '/actionpoints' }, expect.anything());
+  });
+
+  it('should split long replies into several messages', async () => {
+    reply = (channel) => channel.send(longReply(3));
+
+    await receive(createAdapter(0));
+
+    expect(bot.sendMessage).toHaveBeenCalledTimes(3);
+    expect(bot.sendMessage.mock.calls.map(([, text]: [number, string]) => text.slice(0, 3))).toEqual(['1. ', '2. ', '3. ']);
+    expect(bot.sendDocument).not.toHaveBeenCalled();
+  });
+
+  it('should send the full text as a document above the part limit', async () => {
+    const text = longReply(3);
+    reply = (channel) => channel.send(text);
+
+    await receive(createAdapter(2));
+
+    expect(bot.sendMessage).toHaveBeenCalledTimes(1);
+    expect(bot.sendDocument).toHaveBeenCalledWith(
+      42,
+      Buffer.from(text, 'utf8'),
+      { caption: expect.stringContaining('3 messages') },
+      { filename: 'reply.md', contentType: 'text/markdown' }
+    );
+  });
+
+  it('should put the first part in the status message and send the rest', async () => {
+    reply = async (channel) => {
+      const status = await channel.sendStatus('⏳ Fetching transcript...');
+      await status.update(longReply(2));
+    };
+
+    await receive(createAdapter(0));
+
+    expect(bot.editMessageText).toHaveBeenCalledWith(expect.stringMatching(/^1\. /), {
+      parse_mode: 'HTML',
+      chat_id: 42,
+      message_id: 100,
+    });
+    expect(bot.sendMessage).toHaveBeenCalledTimes(2);
+    expect(bot.sendMessage.mock.calls[1][1]).toMatch(/^2\. /);
+  });
+});
@@ -1,5 +1,7 @@
+import { YoutubeTranscript } from 'youtube-transcript';
 import { TranscriptFetcher, TranscriptFetchError } from '../src/components/TranscriptFetcher';
 import { Transcript } from '../src/models';
+import { transcriptFetches } from '../src/utils/metrics';
 
 describe('TranscriptFetcher - Unit Tests', () => {
   let fetcher: TranscriptFetcher;
@@ -14,6 +16,7 @@ describe('TranscriptFetcher - Unit Tests', () => {
         video_id: 'test123',
         title: 'Test Video',
         text: 'a'.repeat(150000), // 150k characters
+        segments: [],
         language: 'en',
         duration: 3600,
         fetched_at: new Date()
@@ -27,6 +30,7 @@ describe('TranscriptFetcher - Unit Tests', () => {
         video_id: 'test123',
         title: 'Test Video',
         text: 'Short transcript text',
+        segments: [],
         language: 'en',
         duration: 60,
         fetched_at: new Date()
@@ -42,6 +46,7 @@ describe('TranscriptFetcher - Unit Tests', () => {
         video_id: 'test123',
         title: 'Test Video',
         text: 'Short transcript text',
+        segments: [],
         language: 'en',
         duration: 60,
         fetched_at: new Date()
@@ -58,6 +63,7 @@ describe('TranscriptFetcher - Unit Tests', () => {
         video_id: 'test123',
         title: 'Test Video',
         text: longText,
+        segments: [],
         language: 'en',
         duration: 3600,
         fetched_at: new Date()
@@ -78,6 +84,7 @@ describe('TranscriptFetcher - Unit Tests', () => {
         video_id: 'test123',
         title: 'Test Video',
         text,
+        segments: [],
         language: 'en',
         duration: 600,
         fetched_at: new Date()
@@ -88,6 +95,52 @@ describe('TranscriptFetcher - Unit Tests', () => {
     });
   });
 
+  describe('splitTranscript', () => {
+    it('should split on segment boundaries and keep timing', () => {
+      const transcript: Transcript = {
+        video_id: 'test123',
+        title: 'Test Video',
+        text: 'aaaa bbbb cccc dddd',
+        segments: [
+          { text: 'aaaa', offset: 0, duration: 5 },
+          { text: 'bbbb', offset: 5, duration: 5 },
+          { text: 'cccc', offset: 10, duration: 5 },
+          { text: 'dddd', offset: 15, duration: 5 }
+        ],
+        language: 'en',
+        duration: 15,
+        fetched_at: new Date()
+      };
+
+      const parts = fetcher.splitTranscript(transcript, 10);
+
+      expect(parts).toHaveLength(2);
+      expect(parts[0].text).toBe('aaaa bbbb');
+      expect(parts[0].segments.map(segment => segment.offset)).toEqual([0, 5]);
+      expect(parts[0].duration).toBe(10);
+      expect(parts[1].text).toBe('cccc dddd');
+      expect(parts[1].segments[0].offset).toBe(10);
+      expect(parts[1].duration).toBe(20);
+    });
+
+    it('should fall back to character chunks without segments', () => {
+      const transcript: Transcript = {
+        video_id: 'test123',
+        title: 'Test Video',
+        text: 'a'.repeat(10000),
+        segments: [],
+        language: 'en',
+        duration: 600,
+        fetched_at: new Date()
+      };
+
+      const parts = fetcher.splitTranscript(transcript, 2500);
+
+      expect(parts).toHaveLength(4);
+      expect(parts.map(part => part.text).join('')).toBe(transcript.text);
+    });
+  });
+
   describe('fetchTranscript', () => {
     it('should throw TranscriptFetchError for invalid video ID', async () => {
       await expect(fetcher.fetchTranscript('invalid123')).rejects.toThrow(TranscriptFetchError);
@@ -102,6 +155,46 @@ describe('TranscriptFetcher - Unit Tests', () => {
         expect((error as TranscriptFetchError).code).toBeDefined();
       }
     }, 15000);
+
+    it('should preserve per-segment timing in seconds', async () => {
+      const spy = jest.spyOn(YoutubeTranscript, 'fetchTranscript').mockResolvedValue([
+        { text: 'Hello everyone', offset: 0, duration: 2500 },
+        { text: 'today we talk about caching', offset: 2500, duration: 3000 },
+        { text: 'thanks for watching', offset: 61000, duration: 1500 }
+      ]);
+
+      try {
+        const transcript = await fetcher.fetchTranscript('dQw4w9WgXcQ');
+
+        expect(transcript.text).toBe('Hello everyone today we talk about caching thanks for watching');
+        expect(transcript.segments).toEqual([
+          { text: 'Hello everyone', offset: 0, duration: 2.5 },
+          { text: 'today we talk about caching', offset: 2.5, duration: 3 },
+          { text: 'thanks for watching', offset: 61, duration: 1.5 }
+        ]);
+        expect(transcript.duration).toBe(61);
+      } finally {
+        spy.mockRestore();
+      }
+    });
+
+    it('should count fetch outcomes by error code', async () => {
+      const spy = jest.spyOn(YoutubeTranscript, 'fetchTranscript')
+        .mockResolvedValueOnce([{ text: 'Hello', offset: 0, duration: 1000 }])
+        .mockRejectedValueOnce(new Error('Transcript is disabled on this video'));
+      const successes = transcriptFetches.get({ outcome: 'success' });
+      const disabled = transcriptFetches.get({ outcome: 'TRANSCRIPT_DISABLED' });
+
+      try {
+        await fetcher.fetchTranscript('dQw4w9WgXcQ');
+        await expect(fetcher.fetchTranscript('dQw4w9WgXcQ')).rejects.toThrow(TranscriptFetchError);
+
+        expect(transcriptFetches.get({ outcome: 'success' })).toBe(successes + 1);
+        expect(transcriptFetches.get({ outcome: 'TRANSCRIPT_DISABLED' })).toBe(disabled + 1);
+      } finally {
+        spy.mockRestore();
+      }
+    });
   });
 
   describe('validateVideo', () => {
@@ -139,6 +232,7 @@ describe('TranscriptFetcher - Property-Based Tests', () => {
         video_id: 'test123',
         title: 'Test Video',
         text: 'a'.repeat(length),
+        segments: [],
         language: 'en',
         duration: 3600,
         fetched_at: new Date()
@@ -171,6 +265,7 @@ describe('TranscriptFetcher - Property-Based Tests', () => {
         video_id: 'test123',
         title: 'Test Video',
         text: 'a'.repeat(size),
+        segments: [],
         language: 'en',
         duration: 3600,
         fetched_at: new Date()
@@ -200,6 +295,7 @@ describe('TranscriptFetcher - Property-Based Tests', () => {
         video_id: 'test123',
         title: 'Test Video',
         text: 'a'.repeat(size),
+        segments: [],
         language: 'en',
         duration: 600,
         fetched_at: new Date()
@@ -280,7 +376,6 @@ describe('TranscriptFetcher - Error Handling Property Tests', () => {
       }
     }
   }, 30000);
-});
 
   /**
    * Property 19: Rate limit error handling
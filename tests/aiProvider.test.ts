@@ -0,0 +1,362 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import OpenAI from 'openai';
+import {
+  AIProviderTimeoutError,
+  CompletionOptions,
+  FailoverProvider,
+  LocalProvider,
+  NamedProvider,
+  ScriptedProvider,
+  TaskRouter,
+  extractJson,
+  isFailoverError,
+  parseRoute,
+} from '../src/utils/aiProvider';
+
+// Mock OpenAI
+const mockCreate = jest.fn();
+jest.mock('openai', () => {
+  return {
+    __esModule: true,
+    default: jest.fn().mockImplementation(() => ({
+      chat: {
+        completions: {
+          create: mockCreate,
+        },
+      },
+    })),
+  };
+});
+
+const options = { timeoutMs: 50, failureThreshold: 2, cooldownMs: 60000 };
+
+const createProvider = (name: string, impl: jest.Mock): NamedProvider => ({
+  name,
+  provider: { generateCompletion: impl },
+});
+
+const httpError = (status: number): Error => Object.assign(new Error(`HTTP ${status}`), { status });
+
+describe('AI Provider Failover - Unit Tests', () => {
+  describe('isFailoverError', () => {
+    it('should fail over on rate limits, server errors and timeouts', () => {
+      expect(isFailoverError(httpError(429))).toBe(true);
+      expect(isFailoverError(httpError(503))).toBe(true);
+      expect(isFailoverError({ code: 'rate_limit_exceeded' })).toBe(true);
+      expect(isFailoverError({ code: 'ECONNRESET' })).toBe(true);
+      expect(isFailoverError({ name: 'APIConnectionTimeoutError' })).toBe(true);
+    });
+
+    it('should not fail over on request errors', () => {
+      expect(isFailoverError(httpError(400))).toBe(false);
+      expect(isFailoverError({ status: 400, code: 'context_length_exceeded' })).toBe(false);
+      expect(isFailoverError(new SyntaxError('Unexpected token'))).toBe(false);
+    });
+  });
+
+  describe('FailoverProvider', () => {
+    it('should use the first provider when it succeeds', async () => {
+      const first = jest.fn().mockResolvedValue({ content: 'first' });
+      const second = jest.fn().mockResolvedValue({ content: 'second' });
+      const provider = new FailoverProvider([createProvider('a', first), createProvider('b', second)], options);
+
+      const response = await provider.generateCompletion('system', 'user', 0.3);
+
+      expect(response.content).toBe('first');
+      expect(first).toHaveBeenCalledWith('system', 'user', 0.3, { signal: expect.any(AbortSignal) });
+      expect(second).not.toHaveBeenCalled();
+    });
+
+    it('should fail over to the next provider on a rate limit', async () => {
+      const first = jest.fn().mockRejectedValue(httpError(429));
+      const second = jest.fn().mockResolvedValue({ content: 'second' });
+      const provider = new FailoverProvider([createProvider('a', first), createProvider('b', second)], options);
+
+      const response = await provider.generateCompletion('system', 'user');
+
+      expect(response.content).toBe('second');
+    });
+
+    it('should fail over when a provider does not answer in time', async () => {
+      const first = jest.fn(() => new Promise(() => undefined));
+      const second = jest.fn().mockResolvedValue({ content: 'second' });
+      const provider = new FailoverProvider([createProvider('a', first), createProvider('b', second)], options);
+
+      const response = await provider.generateCompletion('system', 'user');
+
+      expect(response.content).toBe('second');
+    });
+
+    it('should abort a request that does not answer in time', async () => {
+      let signal: AbortSignal | undefined;
+      const only = jest.fn((_system: string, _user: string, _temperature?: number, requestOptions?: CompletionOptions) => {
+        signal = requestOptions?.signal;
+        return new Promise<never>(() => undefined);
+      });
+      const provider = new FailoverProvider([createProvider('a', only)], options);
+
+      await expect(provider.generateCompletion('system', 'user')).rejects.toBeInstanceOf(AIProviderTimeoutError);
+      expect(signal?.aborted).toBe(true);
+    });
+
+    it('should not fail over on request errors', async () => {
+      const error = Object.assign(httpError(400), { code: 'context_length_exceeded' });
+      const first = jest.fn().mockRejectedValue(error);
+      const second = jest.fn().mockResolvedValue({ content: 'second' });
+      const provider = new FailoverProvider([createProvider('a', first), createProvider('b', second)], options);
+
+      await expect(provider.generateCompletion('system', 'user')).rejects.toBe(error);
+      expect(second).not.toHaveBeenCalled();
+    });
+
+    it('should throw the last error when every provider fails', async () => {
+      const lastError = Object.assign(httpError(429), { code: 'rate_limit_exceeded' });
+      const provider = new FailoverProvider([
+        createProvider('a', jest.fn().mockRejectedValue(httpError(500))),
+        createProvider('b', jest.fn().mockRejectedValue(lastError)),
+      ], options);
+
+      await expect(provider.generateCompletion('system', 'user')).rejects.toBe(lastError);
+    });
+
+    it('should skip a provider marked down until its cooldown has passed', async () => {
+      const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(0);
+      const first = jest.fn().mockRejectedValue(httpError(503));
+      const second = jest.fn().mockResolvedValue({ content: 'second' });
+      const provider = new FailoverProvider([createProvider('a', first), createProvider('b', second)], options);
+
+      await provider.generateCompletion('system', 'user');
+      await provider.generateCompletion('system', 'user');
+      await provider.generateCompletion('system', 'user');
+      expect(first).toHaveBeenCalledTimes(2);
+
+      first.mockResolvedValue({ content: 'first' });
+      nowSpy.mockReturnValue(options.cooldownMs);
+
+      const response = await provider.generateCompletion('system', 'user');
+      expect(response.content).toBe('first');
+
+      nowSpy.mockRestore();
+    });
+
+    it('should send one probe request at a time after the cooldown', async () => {
+      const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(0);
+      const first = jest.fn().mockRejectedValue(httpError(503));
+      const second = jest.fn().mockResolvedValue({ content: 'second' });
+      const provider = new FailoverProvider([createProvider('a', first), createProvider('b', second)], options);
+
+      await provider.generateCompletion('system', 'user');
+      await provider.generateCompletion('system', 'user');
+
+      let answer: (response: { content: string }) => void = () => undefined;
+      first.mockImplementation(() => new Promise((resolve) => { answer = resolve; }));
+      nowSpy.mockReturnValue(options.cooldownMs);
+
+      const probe = provider.generateCompletion('system', 'user');
+      const other = await provider.generateCompletion('system', 'user');
+      expect(other.content).toBe('second');
+      expect(first).toHaveBeenCalledTimes(3);
+
+      answer({ content: 'first' });
+      expect((await probe).content).toBe('first');
+      expect(provider.getStatus()[0].available).toBe(true);
+
+      nowSpy.mockRestore();
+    });
+
+    it('should report which providers are marked down', async () => {
+      const first = jest.fn().mockRejectedValue(httpError(503));
+      const second = jest.fn().mockResolvedValue({ content: 'second' });
+      const provider = new FailoverProvider([createProvider('a', first), createProvider('b', second)], options);
+
+      await provider.generateCompletion('system', 'user');
+      await provider.generateCompletion('system', 'user');
+
+      expect(provider.getStatus()).toEqual([
+        { name: 'a', available: false },
+        { name: 'b', available: true },
+      ]);
+    });
+
+    it('should still try a provider when all are marked down', async () => {
+      const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(0);
+      const first = jest.fn().mockRejectedValue(httpError(503));
+      const provider = new FailoverProvider([createProvider('a', first)], { ...options, failureThreshold: 1 });
+
+      await expect(provider.generateCompletion('system', 'user')).rejects.toMatchObject({ status: 503 });
+      await expect(provider.generateCompletion('system', 'user')).rejects.toMatchObject({ status: 503 });
+      expect(first).toHaveBeenCalledTimes(2);
+
+      nowSpy.mockRestore();
+    });
+  });
+});
+
+describe('Local AI Provider - Unit Tests', () => {
+  beforeEach(() => {
+    mockCreate.mockReset();
+  });
+
+  describe('extractJson', () => {
+    it('should return plain JSON unchanged', () => {
+      expect(extractJson('{"a": 1}')).toBe('{"a": 1}');
+    });
+
+    it('should strip Markdown fences, surrounding text and reasoning blocks', () => {
+      expect(extractJson('Sure!\n```json\n{"a": 1}\n```')).toBe('{"a": 1}');
+      expect(extractJson('Here you go: {"a": [1, 2]} Hope this helps.')).toBe('{"a": [1, 2]}');
+      expect(extractJson('<think>maybe {"b": 2}?</think>\n["x", "y"]')).toBe('["x", "y"]');
+    });
+
+    it('should return text without JSON unchanged', () => {
+      expect(extractJson('No JSON here.')).toBe('No JSON here.');
+    });
+  });
+
+  describe('LocalProvider', () => {
+    it('should point the client at the configured server', () => {
+      new LocalProvider('http://localhost:11434/v1', 'llama3.1:8b', 'prompt');
+
+      expect(OpenAI).toHaveBeenCalledWith({ baseURL: 'http://localhost:11434/v1', apiKey: 'local' });
+    });
+
+    it('should ask for JSON in the prompt and extract it when JSON mode is not native', async () => {
+      mockCreate.mockResolvedValue({ choices: [{ message: { content: '```json\n{"answer": "42"}\n```' } }] });
+      const provider = new LocalProvider('http://localhost:8080/v1', 'qwen2.5', 'prompt');
+
+      const response = await provider.generateCompletion('system', 'user', 0.1);
+
+      expect(response.content).toBe('{"answer": "42"}');
+      const request = mockCreate.mock.calls[0][0];
+      expect(request.model).toBe('qwen2.5');
+      expect(request.temperature).toBe(0.1);
+      expect(request.response_format).toBeUndefined();
+      expect(request.messages[0].content).toContain('valid JSON');
+    });
+
+    it('should use response_format in native JSON mode', async () => {
+      mockCreate.mockResolvedValue({ choices: [{ message: { content: '{"answer": "42"}' } }] });
+      const provider = new LocalProvider('http://localhost:8000/v1', 'mistral', 'native');
+
+      const response = await provider.generateCompletion('system', 'user');
+
+      expect(response.content).toBe('{"answer": "42"}');
+      expect(mockCreate.mock.calls[0][0].response_format).toEqual({ type: 'json_object' });
+      expect(mockCreate.mock.calls[0][0].messages[0].content).toBe('system');
+    });
+
+    it('should report token usage and latency', async () => {
+      mockCreate.mockResolvedValue({
+        model: 'qwen2.5:7b',
+        choices: [{ message: { content: '{}' } }],
+        usage: { prompt_tokens: 120, completion_tokens: 30 },
+      });
+      const provider = new LocalProvider('http://localhost:8080/v1', 'qwen2.5', 'native');
+
+      const response = await provider.generateCompletion('system', 'user');
+
+      expect(response.usage).toEqual({
+        prompt_tokens: 120,
+        completion_tokens: 30,
+        model: 'qwen2.5:7b',
+        latency_ms: expect.any(Number),
+      });
+    });
+
+    it('should reject empty replies', async () => {
+      mockCreate.mockResolvedValue({ choices: [{ message: { content: '' } }] });
+      const provider = new LocalProvider('http://localhost:8080/v1', 'qwen2.5', 'prompt');
+
+      await expect(provider.generateCompletion('system', 'user')).rejects.toThrow('Empty response from local model');
+    });
+  });
+});
+
+describe('Scripted AI Provider - Unit Tests', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ai-fixtures-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should derive the same fingerprint only for the same request', () => {
+    const fingerprint = ScriptedProvider.fingerprint('system', 'user', 0.3);
+
+    expect(fingerprint).toMatch(/^[0-9a-f]{16}$/);
+    expect(ScriptedProvider.fingerprint('system', 'user', 0.3)).toBe(fingerprint);
+    expect(ScriptedProvider.fingerprint('system', 'user!', 0.3)).not.toBe(fingerprint);
+    expect(ScriptedProvider.fingerprint('system', 'user', 0.5)).not.toBe(fingerprint);
+  });
+
+  it('should record responses to fixture files and replay them without the real provider', async () => {
+    const real = jest.fn().mockResolvedValue({ content: '{"answer": "recorded"}' });
+    const recorder = new ScriptedProvider(path.join(dir, 'nested'), { generateCompletion: real });
+
+    await recorder.generateCompletion('system', 'user', 0.3);
+
+    const fingerprint = ScriptedProvider.fingerprint('system', 'user', 0.3);
+    const fixture = JSON.parse(fs.readFileSync(path.join(dir, 'nested', `${fingerprint}.json`), 'utf8'));
+    expect(fixture).toEqual({
+      fingerprint,
+      system_prompt: 'system',
+      user_prompt: 'user',
+      temperature: 0.3,
+      response: { content: '{"answer": "recorded"}' },
+    });
+
+    const replay = new ScriptedProvider(path.join(dir, 'nested'));
+    expect(await replay.generateCompletion('system', 'user', 0.3)).toEqual({ content: '{"answer": "recorded"}' });
+    expect(real).toHaveBeenCalledTimes(1);
+  });
+
+  it('should answer prompts containing the text of a scripted fixture', async () => {
+    fs.writeFileSync(path.join(dir, 'b.json'), JSON.stringify({ match: 'question', response: { content: 'second' } }));
+    fs.writeFileSync(path.join(dir, 'a.json'), JSON.stringify({ match: 'question', response: { content: 'first' } }));
+    const provider = new ScriptedProvider(dir);
+
+    expect(await provider.generateCompletion('system', 'A question about caching')).toEqual({ content: 'first' });
+  });
+
+  it('should reject prompts without a fixture in replay mode', async () => {
+    const provider = new ScriptedProvider(dir);
+
+    await expect(provider.generateCompletion('system', 'unknown prompt')).rejects.toMatchObject({
+      code: 'MISSING_FIXTURE',
+      fingerprint: ScriptedProvider.fingerprint('system', 'unknown prompt'),
+    });
+  });
+});
+
+describe('AI Task Routing - Unit Tests', () => {
+  describe('parseRoute', () => {
+    it('should read a provider with an optional model', () => {
+      expect(parseRoute('gemini')).toEqual({ provider: 'gemini' });
+      expect(parseRoute(' OpenAI : gpt-4o-mini ')).toEqual({ provider: 'openai', model: 'gpt-4o-mini' });
+    });
+
+    it('should keep colons inside the model name', () => {
+      expect(parseRoute('local:llama3.1:8b')).toEqual({ provider: 'local', model: 'llama3.1:8b' });
+    });
+  });
+
+  describe('TaskRouter', () => {
+    it('should send routed tasks to their provider and the rest to the default one', async () => {
+      const fallback = jest.fn().mockResolvedValue({ content: 'default' });
+      const cheap = jest.fn().mockResolvedValue({ content: 'cheap' });
+      const router = new TaskRouter({ generateCompletion: fallback }, { chunk_summary: { generateCompletion: cheap } });
+
+      expect(await router.generateCompletion('system', 'part', 0.3, { task: 'chunk_summary' })).toEqual({ content: 'cheap' });
+      expect(await router.generateCompletion('system', 'merge', 0.3, { task: 'summary' })).toEqual({ content: 'default' });
+      expect(await router.generateCompletion('system', 'other')).toEqual({ content: 'default' });
+
+      expect(cheap).toHaveBeenCalledWith('system', 'part', 0.3, { task: 'chunk_summary' });
+      expect(fallback).toHaveBeenCalledTimes(2);
+    });
+  });
+});
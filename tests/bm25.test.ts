@@ -0,0 +1,87 @@
+import { BM25Index, tokenize } from '../src/utils/bm25';
+import * as fc from 'fast-check';
+
+describe('BM25 - Unit Tests', () => {
+  describe('tokenize', () => {
+    it('should lowercase, drop stop words and stem', () => {
+      expect(tokenize('What are the Caching strategies?')).toEqual(['cach', 'strategi']);
+    });
+
+    it('should keep words in non-Latin scripts', () => {
+      expect(tokenize('मशीन लर्निंग')).toEqual(['मशीन', 'लर्निंग']);
+    });
+  });
+
+  describe('search', () => {
+    const documents = [
+      'We start with an introduction to the speaker and the agenda for today',
+      'Caching layers reduce latency; a cache hit avoids the database entirely',
+      'The speaker talks about hiring, team structure and the weather in Berlin',
+    ];
+
+    it('should rank the document matching inflected query terms first', () => {
+      const index = new BM25Index(documents);
+      const results = index.search('how does caching affect latency?');
+
+      expect(results[0].index).toBe(1);
+    });
+
+    it('should return nothing when no term matches', () => {
+      const index = new BM25Index(documents);
+
+      expect(index.search('quantum chromodynamics')).toEqual([]);
+    });
+
+    it('should favour rare terms over common ones', () => {
+      const index = new BM25Index(documents);
+      const results = index.search('speaker agenda');
+
+      expect(results[0].index).toBe(0);
+    });
+
+    it('should not favour long documents for repeated filler', () => {
+      const index = new BM25Index([
+        'okay so okay so okay so pricing okay so okay so okay so okay so okay so okay so',
+        'pricing tiers',
+      ]);
+      const results = index.search('pricing');
+
+      expect(results[0].index).toBe(1);
+    });
+
+    it('should respect the result limit', () => {
+      const index = new BM25Index(documents);
+
+      expect(index.search('speaker', 1)).toHaveLength(1);
+    });
+  });
+});
+
+describe('BM25 - Property-Based Tests', () => {
+  /**
+   * Property: Search results are valid and ordered
+   * Every result points at an indexed document and scores never increase
+   */
+  it('should return valid, descending results for any query', () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.string({ minLength: 0, maxLength: 100 }), { minLength: 0, maxLength: 10 }),
+        fc.string({ minLength: 0, maxLength: 30 }),
+        (documents, query) => {
+          const index = new BM25Index(documents);
+          const results = index.search(query);
+
+          results.forEach((result, i) => {
+            expect(result.index).toBeGreaterThanOrEqual(0);
+            expect(result.index).toBeLessThan(documents.length);
+            expect(result.score).toBeGreaterThan(0);
+            if (i > 0) {
+              expect(result.score).toBeLessThanOrEqual(results[i - 1].score);
+            }
+          });
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
@@ -0,0 +1,64 @@
+import { CircuitBreaker } from '../src/utils/circuitBreaker';
+
+describe('Circuit Breaker - Unit Tests', () => {
+  let now: number;
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    now = 0;
+    breaker = new CircuitBreaker(2, 1000, () => now);
+  });
+
+  it('should open after the failure threshold is reached', () => {
+    breaker.recordFailure();
+    expect(breaker.isOpen()).toBe(false);
+
+    breaker.recordFailure();
+    expect(breaker.isOpen()).toBe(true);
+    expect(breaker.remainingCooldown()).toBe(1000);
+  });
+
+  it('should close again once the cooldown has passed', () => {
+    breaker.recordFailure();
+    breaker.recordFailure();
+
+    now = 1000;
+
+    expect(breaker.isOpen()).toBe(false);
+    expect(breaker.remainingCooldown()).toBe(0);
+  });
+
+  it('should reopen straight away when the retry after the cooldown fails', () => {
+    breaker.recordFailure();
+    breaker.recordFailure();
+    now = 1000;
+
+    breaker.recordFailure();
+
+    expect(breaker.isOpen()).toBe(true);
+  });
+
+  it('should let a single probe through after the cooldown', () => {
+    breaker.recordFailure();
+    breaker.recordFailure();
+    now = 1000;
+
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.tryAcquire()).toBe(false);
+    expect(breaker.isOpen()).toBe(true);
+
+    breaker.recordSuccess();
+
+    expect(breaker.isOpen()).toBe(false);
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.tryAcquire()).toBe(true);
+  });
+
+  it('should reset the failure count on success', () => {
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+
+    expect(breaker.isOpen()).toBe(false);
+  });
+});
@@ -0,0 +1,87 @@
+import { HashingEmbedder, LocalModelEmbedder } from '../src/utils/embeddings';
+import { cosineSimilarity } from '../src/utils/vectorIndex';
+import * as fc from 'fast-check';
+
+describe('Embeddings - Unit Tests', () => {
+  describe('HashingEmbedder', () => {
+    it('should produce vectors of the configured size', async () => {
+      const embedder = new HashingEmbedder(64);
+      const [vector] = await embedder.embedDocuments(['caching strategies']);
+
+      expect(vector).toHaveLength(64);
+    });
+
+    it('should be deterministic', async () => {
+      const embedder = new HashingEmbedder();
+
+      expect(await embedder.embedQuery('database indexes')).toEqual(await embedder.embedQuery('database indexes'));
+    });
+
+    it('should place related texts closer than unrelated ones', async () => {
+      const embedder = new HashingEmbedder();
+      const [cache, cooking] = await embedder.embedDocuments([
+        'we cache responses to cut latency',
+        'the recipe needs two cups of flour',
+      ]);
+      const query = await embedder.embedQuery('how does caching reduce latency');
+
+      expect(cosineSimilarity(query, cache)).toBeGreaterThan(cosineSimilarity(query, cooking));
+    });
+
+    it('should return a zero vector for text without terms', async () => {
+      const embedder = new HashingEmbedder(16);
+
+      expect(await embedder.embedQuery('?!')).toEqual(new Array(16).fill(0));
+    });
+  });
+
+  describe('LocalModelEmbedder', () => {
+    // Stands in for @xenova/transformers; each text embeds as [length, 1]
+    const createTransformers = () => {
+      const extractor = jest.fn(async (texts: string[]) => ({ tolist: () => texts.map((text) => [text.length, 1]) }));
+      return { env: {} as Record<string, unknown>, extractor, pipeline: jest.fn().mockResolvedValue(extractor) };
+    };
+
+    it('should embed with the model loaded once from the local path', async () => {
+      const transformers = createTransformers();
+      const embedder = new LocalModelEmbedder('Xenova/multilingual-e5-small', '/models', async () => transformers);
+
+      const documents = await embedder.embedDocuments(['hello', 'world']);
+      const query = await embedder.embedQuery('hi');
+
+      expect(documents).toEqual([['passage: hello'.length, 1], ['passage: world'.length, 1]]);
+      expect(query).toEqual(['query: hi'.length, 1]);
+      expect(transformers.extractor).toHaveBeenCalledWith(['query: hi'], { pooling: 'mean', normalize: true });
+      expect(transformers.pipeline).toHaveBeenCalledTimes(1);
+      expect(transformers.pipeline).toHaveBeenCalledWith('feature-extraction', 'Xenova/multilingual-e5-small', { quantized: true });
+      expect(transformers.env).toEqual({ localModelPath: '/models', allowRemoteModels: false });
+    });
+
+    it('should explain how to install the model runtime when it is missing', async () => {
+      const embedder = new LocalModelEmbedder('Xenova/multilingual-e5-small', '', () =>
+        Promise.reject(new Error("Cannot find module '@xenova/transformers'")));
+
+      await expect(embedder.embedQuery('hello')).rejects.toThrow('npm install @xenova/transformers');
+    });
+  });
+});
+
+describe('Embeddings - Property-Based Tests', () => {
+  /**
+   * Property: Hashing embeddings are unit length
+   * Any text with at least one term embeds to a normalized vector
+   */
+  it('should produce unit-length vectors for any text with terms', async () => {
+    const embedder = new HashingEmbedder();
+
+    await fc.assert(
+      fc.asyncProperty(fc.stringOf(fc.constantFrom('a', 'b', 'c', 'x', 'y', ' '), { minLength: 2, maxLength: 60 }), async (text) => {
+        const vector = await embedder.embedQuery(text);
+        const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+
+        expect(norm === 0 || Math.abs(norm - 1) < 1e-9).toBe(true);
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
@@ -0,0 +1,103 @@
+import { HttpServer, createReadinessHandler, createWebhookHandler } from '../src/utils/httpServer';
+
+describe('HTTP Server - Unit Tests', () => {
+  let server: HttpServer;
+  let baseUrl: string;
+  let onUpdate: jest.Mock;
+
+  const postUpdate = (body: string, secret?: string) =>
+    fetch(`${baseUrl}/telegram`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(secret !== undefined && { 'X-Telegram-Bot-Api-Secret-Token': secret }),
+      },
+      body,
+    });
+
+  beforeEach(async () => {
+    onUpdate = jest.fn();
+    server = new HttpServer()
+      .route('POST', '/telegram', createWebhookHandler('s3cret-token', onUpdate))
+      .route('GET', '/hello', () => ({ status: 200, body: 'hi' }));
+    const port = await server.listen(0, '127.0.0.1');
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('should pass updates with the right secret token on', async () => {
+    const update = { update_id: 1, message: { message_id: 1, text: 'hello' } };
+
+    const response = await postUpdate(JSON.stringify(update), 's3cret-token');
+
+    expect(response.status).toBe(200);
+    expect(onUpdate).toHaveBeenCalledWith(update);
+  });
+
+  it('should reject updates with a missing or wrong secret token', async () => {
+    expect((await postUpdate('{}')).status).toBe(401);
+    expect((await postUpdate('{}', 's3cret-tokem')).status).toBe(401);
+    expect((await postUpdate('{}', 'short')).status).toBe(401);
+    expect(onUpdate).not.toHaveBeenCalled();
+  });
+
+  it('should reject bodies that are not JSON', async () => {
+    const response = await postUpdate('not json', 's3cret-token');
+
+    expect(response.status).toBe(400);
+    expect(onUpdate).not.toHaveBeenCalled();
+  });
+
+  it('should reject oversized bodies', async () => {
+    const response = await postUpdate('x'.repeat(2 * 1024 * 1024), 's3cret-token');
+
+    expect(response.status).toBe(413);
+  });
+
+  it('should route by method and path and ignore the query string', async () => {
+    const hello = await fetch(`${baseUrl}/hello?x=1`);
+    expect(hello.status).toBe(200);
+    expect(await hello.text()).toBe('hi');
+
+    expect((await fetch(`${baseUrl}/telegram`)).status).toBe(404);
+    expect((await fetch(`${baseUrl}/other`)).status).toBe(404);
+  });
+
+  it('should answer 500 when a handler throws', async () => {
+    server.route('GET', '/broken', () => {
+      throw new Error('boom');
+    });
+
+    expect((await fetch(`${baseUrl}/broken`)).status).toBe(500);
+  });
+});
+
+describe('Readiness Handler - Unit Tests', () => {
+  const request = { method: 'GET', path: '/readyz', headers: {}, body: '' };
+
+  it('should be ready when every check passes', async () => {
+    const handler = createReadinessHandler({ config: () => undefined, storage: () => undefined });
+
+    const response = await handler(request);
+
+    expect(response.status).toBe(200);
+    expect(JSON.parse(response.body!)).toEqual({ status: 'ready', checks: { config: 'ok', storage: 'ok' } });
+  });
+
+  it('should report the failing check with 503', async () => {
+    const handler = createReadinessHandler({
+      config: () => undefined,
+      providers: () => {
+        throw new Error('all providers marked down: openai');
+      },
+    });
+
+    const response = await handler(request);
+
+    expect(response.status).toBe(503);
+    expect(JSON.parse(response.body!).checks).toEqual({ config: 'ok', providers: 'all providers marked down: openai' });
+  });
+});
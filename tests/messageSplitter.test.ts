@@ -0,0 +1,80 @@
+import fc from 'fast-check';
+import { splitMessage, TELEGRAM_MESSAGE_LIMIT } from '../src/utils/messageSplitter';
+
+describe('Message Splitter - Unit Tests', () => {
+  it('should leave text within the limit alone', () => {
+    expect(splitMessage('short reply')).toEqual(['short reply']);
+  });
+
+  it('should split between paragraphs', () => {
+    const paragraph = 'a'.repeat(30);
+    const parts = splitMessage([paragraph, paragraph, paragraph].join('\n\n'), 70);
+
+    expect(parts).toEqual([`${paragraph}\n\n${paragraph}`, paragraph]);
+  });
+
+  it('should keep a numbered list item with its continuation lines', () => {
+    const text = [
+      '📝 Action Points:',
+      '1. Put a cache in front of slow queries',
+      '   Why: they dominate page load time',
+      '2. Expire entries after a TTL',
+      '   Why: stale data is worse than slow data',
+    ].join('\n');
+
+    const parts = splitMessage(text, 100);
+
+    expect(parts).toEqual([
+      '📝 Action Points:\n1. Put a cache in front of slow queries\n   Why: they dominate page load time',
+      '2. Expire entries after a TTL\n   Why: stale data is worse than slow data',
+    ]);
+  });
+
+  it('should move a whole list to the next part when it fits there', () => {
+    const list = '1. first\n2. second\n3. third';
+    const parts = splitMessage(`${'x'.repeat(20)}\n\n${list}`, 30);
+
+    expect(parts).toEqual(['x'.repeat(20), list]);
+  });
+
+  it('should break overlong lines between words', () => {
+    const parts = splitMessage('one two three four five', 10);
+
+    expect(parts).toEqual(['one two', 'three four', 'five']);
+  });
+
+  it('should split Tamil text without losing characters', () => {
+    const sentence = 'இந்த வீடியோ தரவுத்தள வினவல்களை தற்காலிகமாக சேமிப்பது பற்றியது. ';
+    const text = Array.from({ length: 40 }, (_, i) => `${i + 1}. ${sentence.repeat(5)}`).join('\n');
+
+    const parts = splitMessage(text);
+
+    expect(parts.length).toBeGreaterThan(1);
+    expect(parts.every((part) => part.length <= TELEGRAM_MESSAGE_LIMIT)).toBe(true);
+    expect(parts.join('\n')).toBe(text);
+    expect(parts.every((part) => /^\d+\. /.test(part))).toBe(true);
+  });
+
+  it('should not cut emoji in half', () => {
+    const parts = splitMessage('😀'.repeat(10), 5);
+
+    expect(parts.join('')).toBe('😀'.repeat(10));
+    expect(parts.every((part) => !/[\uD800-\uDBFF]$/.test(part))).toBe(true);
+  });
+
+  it('should keep every part within the limit and all words in order', () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.stringOf(fc.constantFrom('a', 'b', ' ', '\n', '1', '.'), { maxLength: 80 }), { maxLength: 20 }),
+        fc.integer({ min: 10, max: 60 }),
+        (paragraphs, limit) => {
+          const text = paragraphs.join('\n\n');
+          const parts = splitMessage(text, limit);
+
+          expect(parts.every((part) => part.length <= limit)).toBe(true);
+          expect(parts.join(' ').split(/\s+/).filter(Boolean)).toEqual(text.split(/\s+/).filter(Boolean));
+        }
+      )
+    );
+  });
+});
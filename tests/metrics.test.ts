@@ -0,0 +1,54 @@
+import { MetricsRegistry } from '../src/utils/metrics';
+
+describe('Metrics - Unit Tests', () => {
+  let registry: MetricsRegistry;
+
+  beforeEach(() => {
+    registry = new MetricsRegistry();
+  });
+
+  it('should render counters per label set', () => {
+    const counter = registry.counter('bot_messages_routed_total', 'Incoming messages by route type');
+    counter.inc({ type: 'question' });
+    counter.inc({ type: 'question' });
+    counter.inc({ type: 'command' });
+
+    expect(registry.render()).toBe([
+      '# HELP bot_messages_routed_total Incoming messages by route type',
+      '# TYPE bot_messages_routed_total counter',
+      'bot_messages_routed_total{type="question"} 2',
+      'bot_messages_routed_total{type="command"} 1',
+      '',
+    ].join('\n'));
+    expect(counter.get({ type: 'question' })).toBe(2);
+  });
+
+  it('should escape label values', () => {
+    registry.counter('c', 'help').inc({ reason: 'say "hi"\\\n' });
+
+    expect(registry.render()).toContain('c{reason="say \\"hi\\"\\\\\\n"} 1');
+  });
+
+  it('should read gauges when rendering', () => {
+    let sessions = 1;
+    registry.gauge('bot_sessions', 'Stored sessions', () => sessions);
+    sessions = 5;
+
+    expect(registry.render()).toContain('bot_sessions 5');
+  });
+
+  it('should render cumulative histogram buckets with sum and count', () => {
+    const histogram = registry.histogram('latency_seconds', 'Latency', [1, 5]);
+    histogram.observe({ model: 'gpt-4o' }, 0.5);
+    histogram.observe({ model: 'gpt-4o' }, 3);
+    histogram.observe({ model: 'gpt-4o' }, 8);
+
+    const output = registry.render();
+    expect(output).toContain('# TYPE latency_seconds histogram');
+    expect(output).toContain('latency_seconds_bucket{le="1",model="gpt-4o"} 1');
+    expect(output).toContain('latency_seconds_bucket{le="5",model="gpt-4o"} 2');
+    expect(output).toContain('latency_seconds_bucket{le="+Inf",model="gpt-4o"} 3');
+    expect(output).toContain('latency_seconds_sum{model="gpt-4o"} 11.5');
+    expect(output).toContain('latency_seconds_count{model="gpt-4o"} 3');
+  });
+});
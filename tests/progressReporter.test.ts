@@ -0,0 +1,102 @@
+import { ProgressReporter, formatElapsed } from '../src/utils/progressReporter';
+
+describe('Progress Reporter - Unit Tests', () => {
+  let now: number;
+  let updates: string[];
+  let update: jest.Mock;
+  let send: jest.Mock;
+
+  const advance = async (ms: number) => {
+    now += ms;
+    jest.advanceTimersByTime(ms);
+    await Promise.resolve();
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    now = 0;
+    updates = [];
+    update = jest.fn(async (text: string) => {
+      updates.push(text);
+    });
+    send = jest.fn(async () => undefined);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should format elapsed time in seconds and minutes', () => {
+    expect(formatElapsed(42_500)).toBe('42s');
+    expect(formatElapsed(65_000)).toBe('1m 05s');
+  });
+
+  it('should edit the status with the stage and elapsed time', async () => {
+    const progress = new ProgressReporter({ update }, send, () => now);
+
+    await advance(2000);
+    progress.report('Summarizing part 1 of 3');
+    await advance(0);
+
+    expect(updates).toEqual(['⏳ Summarizing part 1 of 3... (2s)']);
+  });
+
+  it('should space edits a second apart and show the latest stage', async () => {
+    const progress = new ProgressReporter({ update }, send, () => now);
+
+    progress.report('Fetching transcript');
+    progress.report('Summarizing part 1 of 3');
+    progress.report('Summarizing part 2 of 3');
+    expect(updates).toEqual([]);
+
+    await advance(1000);
+    expect(updates).toEqual(['⏳ Summarizing part 2 of 3... (1s)']);
+  });
+
+  it('should refresh the elapsed time during a slow stage', async () => {
+    const progress = new ProgressReporter({ update }, send, () => now);
+    await advance(1000);
+    progress.report('Summarizing');
+    await advance(0);
+
+    await advance(5000);
+
+    expect(updates).toEqual(['⏳ Summarizing... (1s)', '⏳ Summarizing... (6s)']);
+  });
+
+  it('should replace the status with the result and stop updating', async () => {
+    const progress = new ProgressReporter({ update }, send, () => now);
+    progress.report('Summarizing');
+
+    await progress.finish('Summary');
+    progress.report('Merging');
+    await advance(10_000);
+
+    expect(updates).toEqual(['Summary']);
+  });
+
+  it('should keep reporting when a progress edit is rejected', async () => {
+    update.mockRejectedValueOnce(new Error('message is not modified'));
+    const progress = new ProgressReporter({ update }, send, () => now);
+    await advance(1000);
+    progress.report('Summarizing');
+    await advance(5000);
+    await advance(0);
+    await advance(0);
+
+    expect(updates).toEqual(['⏳ Summarizing... (6s)']);
+  });
+
+  it('should send the result as a new message when the status cannot be edited', async () => {
+    const progress = new ProgressReporter({ update }, send, () => now);
+    await advance(1000);
+    progress.report('Summarizing');
+    await advance(0);
+    update.mockRejectedValueOnce(new Error('429 Too Many Requests'));
+
+    const buttons = [[{ text: 'Action points', command: '/actionpoints' }]];
+    await progress.finish('Summary', buttons);
+
+    expect(send).toHaveBeenCalledWith('Summary', buttons);
+  });
+});
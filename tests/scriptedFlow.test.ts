@@ -0,0 +1,70 @@
+import path from 'path';
+import { config } from '../src/config';
+import { ContextManager } from '../src/components/ContextManager';
+import { Summarizer } from '../src/components/Summarizer';
+import { QAEngine } from '../src/components/QAEngine';
+import { CommandHandler } from '../src/components/CommandHandler';
+import { Transcript } from '../src/models';
+import { getAIProvider } from '../src/utils/aiProvider';
+
+/**
+ * Runs the bot's main flows against the scripted provider, with no network
+ * and no mocked modules; responses come from tests/fixtures/ai
+ */
+describe('Scripted AI Flow - Integration Tests', () => {
+  const originalScripted = { ...config.scripted };
+  let contextManager: ContextManager;
+
+  const segments = [
+    { text: 'why we cache slow database queries', offset: 0, duration: 30 },
+    { text: 'every entry expires after a ttl', offset: 30, duration: 30 },
+    { text: 'measure the cache hit rate', offset: 60, duration: 30 },
+  ];
+  const transcript: Transcript = {
+    video_id: 'dQw4w9WgXcQ',
+    title: 'Caching 101',
+    text: segments.map((segment) => segment.text).join(' '),
+    segments,
+    language: 'en',
+    duration: 90,
+    fetched_at: new Date(),
+  };
+
+  beforeAll(() => {
+    config.scripted.mode = 'replay';
+    config.scripted.fixtureDir = path.join(__dirname, 'fixtures', 'ai');
+  });
+
+  afterAll(() => {
+    Object.assign(config.scripted, originalScripted);
+  });
+
+  beforeEach(() => {
+    contextManager = new ContextManager();
+  });
+
+  afterEach(() => {
+    contextManager.stopCleanupTask();
+  });
+
+  it('should summarize a video, answer a question and list action points', async () => {
+    const aiProvider = getAIProvider();
+    const summarizer = new Summarizer(aiProvider);
+    const qaEngine = new QAEngine(aiProvider, 'lexical');
+    const commandHandler = new CommandHandler(contextManager, summarizer, aiProvider);
+
+    await contextManager.createSession('user1', transcript.video_id, transcript);
+
+    const summary = await commandHandler.handleSummaryCommand('user1');
+    expect(summary).toContain('🎥 Caching 101');
+    expect(summary).toContain('• <a href="https://youtu.be/dQw4w9WgXcQ?t=30">0:30</a> - Expiry with TTLs');
+
+    const answer = await qaEngine.answerQuestion('When do entries expire?', transcript);
+    expect(qaEngine.formatAnswer(answer, transcript.video_id)).toContain(
+      'Entries expire after a TTL so stale data is dropped.\n\n<b>📍 Sources:</b>\n• <a href="https://youtu.be/dQw4w9WgXcQ?t=0">0:00 - 1:30</a>'
+    );
+
+    const actionPoints = await commandHandler.handleActionPointsCommand('user1');
+    expect(actionPoints).toContain('1. Put a cache in front of slow queries');
+  });
+});
@@ -0,0 +1,38 @@
+import { stem } from '../src/utils/stemmer';
+
+describe('Stemmer - Unit Tests', () => {
+  it('should reduce inflected forms to a common stem', () => {
+    expect(stem('learning')).toBe('learn');
+    expect(stem('learned')).toBe('learn');
+    expect(stem('learns')).toBe('learn');
+  });
+
+  it('should match nouns and verbs of the same root', () => {
+    expect(stem('caching')).toBe(stem('cache'));
+    expect(stem('optimization')).toBe(stem('optimize'));
+  });
+
+  it('should follow the Porter reference outputs', () => {
+    const cases: [string, string][] = [
+      ['caresses', 'caress'],
+      ['ponies', 'poni'],
+      ['agreed', 'agre'],
+      ['hopping', 'hop'],
+      ['relational', 'relat'],
+      ['generalization', 'gener'],
+      ['electricity', 'electr'],
+      ['adjustment', 'adjust'],
+      ['controlling', 'control'],
+    ];
+
+    cases.forEach(([word, expected]) => {
+      expect(stem(word)).toBe(expected);
+    });
+  });
+
+  it('should leave short and non-English words unchanged', () => {
+    expect(stem('ai')).toBe('ai');
+    expect(stem('मशीन')).toBe('मशीन');
+    expect(stem('gpt4')).toBe('gpt4');
+  });
+});
@@ -0,0 +1,276 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { MemoryStorage, SqliteStorage, StorageAdapter } from '../src/storage';
+import { Session, Summary, Transcript } from '../src/models';
+
+const createTranscript = (videoId: string): Transcript => ({
+  video_id: videoId,
+  title: `Video ${videoId}`,
+  text: 'Hello world',
+  segments: [{ text: 'Hello world', offset: 0, duration: 2 }],
+  language: 'en',
+  duration: 2,
+  fetched_at: new Date('2024-01-01T00:00:00Z'),
+});
+
+const createSession = (userId: string, lastAccessed: Date = new Date(), videoId: string = 'video1'): Session => ({
+  user_id: userId,
+  video_id: videoId,
+  transcript: createTranscript(videoId),
+  chunks: [],
+  history: [{ question: 'What?', answer: 'That.', timestamp: new Date('2024-01-01T00:01:00Z') }],
+  language: 'hi',
+  created_at: new Date('2024-01-01T00:00:00Z'),
+  last_accessed: lastAccessed,
+});
+
+describe.each([
+  ['MemoryStorage', () => new MemoryStorage()],
+  ['SqliteStorage', () => new SqliteStorage(':memory:')],
+])('%s - Unit Tests', (_name, createStorage: () => StorageAdapter) => {
+  let storage: StorageAdapter;
+
+  beforeEach(() => {
+    storage = createStorage();
+  });
+
+  afterEach(() => {
+    storage.close();
+  });
+
+  it('should save and load sessions with history and dates', () => {
+    const session = createSession('user1');
+    storage.saveSession(session);
+    storage.setActiveSession('user1', 'video1');
+
+    const loaded = storage.getSession('user1');
+
+    expect(loaded).toEqual(session);
+    expect(loaded?.last_accessed).toBeInstanceOf(Date);
+    expect(loaded?.transcript.fetched_at).toBeInstanceOf(Date);
+    expect(storage.countSessions()).toBe(1);
+  });
+
+  it('should overwrite a session saved again', () => {
+    storage.saveSession(createSession('user1'));
+    storage.saveSession({ ...createSession('user1'), history: [], language: 'en' });
+
+    const loaded = storage.getSession('user1', 'video1');
+
+    expect(loaded?.history).toEqual([]);
+    expect(loaded?.language).toBe('en');
+    expect(storage.countSessions()).toBe(1);
+  });
+
+  it('should update only the last access time when touching a session', () => {
+    storage.saveSession(createSession('user1', new Date('2024-01-01T00:00:00Z')));
+    const accessedAt = new Date('2024-01-02T00:00:00Z');
+
+    storage.touchSession('user1', 'video1', accessedAt);
+
+    expect(storage.getSession('user1', 'video1')).toEqual(createSession('user1', accessedAt));
+  });
+
+  it('should keep session transcripts removed from the cache', () => {
+    storage.saveSession(createSession('user1'));
+    storage.saveTranscript('video1', createTranscript('video1'));
+
+    storage.deleteTranscript('video1');
+
+    expect(storage.getTranscript('video1')).toBeNull();
+    expect(storage.countTranscripts()).toBe(0);
+    expect(storage.getSession('user1', 'video1')?.transcript).toEqual(createTranscript('video1'));
+
+    storage.deleteSession('user1', 'video1');
+    storage.saveTranscript('video1', createTranscript('video1'));
+    expect(storage.getTranscript('video1')).toEqual(createTranscript('video1'));
+  });
+
+  it('should delete sessions', () => {
+    storage.saveSession(createSession('user1'));
+    storage.setActiveSession('user1', 'video1');
+
+    expect(storage.deleteSession('user1')).toBe(true);
+    expect(storage.deleteSession('user1')).toBe(false);
+    expect(storage.getSession('user1')).toBeNull();
+  });
+
+  it('should delete only sessions accessed before the cutoff', () => {
+    storage.saveSession(createSession('old', new Date('2024-01-01T00:00:00Z')));
+    storage.saveSession(createSession('fresh', new Date('2024-01-03T00:00:00Z')));
+
+    const deleted = storage.deleteSessionsAccessedBefore(new Date('2024-01-02T00:00:00Z'));
+
+    expect(deleted).toEqual(['old']);
+    expect(storage.getSession('old', 'video1')).toBeNull();
+    expect(storage.getSession('fresh', 'video1')).not.toBeNull();
+  });
+
+  it('should keep one session per video and track the active one', () => {
+    storage.saveSession({ ...createSession('user1', new Date(), 'video1'), created_at: new Date('2024-01-01T00:00:00Z') });
+    storage.saveSession({ ...createSession('user1', new Date(), 'video2'), created_at: new Date('2024-01-02T00:00:00Z'), history: [] });
+    storage.setActiveSession('user1', 'video2');
+
+    expect(storage.listSessions('user1').map((s) => s.video_id)).toEqual(['video2', 'video1']);
+    expect(storage.getSession('user1')?.video_id).toBe('video2');
+    expect(storage.getSession('user1', 'video1')?.history).toHaveLength(1);
+    expect(storage.countSessions()).toBe(2);
+
+    storage.setActiveSession('user1', 'video1');
+    expect(storage.getSession('user1')?.video_id).toBe('video1');
+
+    expect(storage.deleteSession('user1')).toBe(true);
+    expect(storage.getSession('user1')).toBeNull();
+    expect(storage.listSessions('user1').map((s) => s.video_id)).toEqual(['video2']);
+  });
+
+  it('should report only users left without sessions after expiry', () => {
+    storage.saveSession(createSession('user1', new Date('2024-01-01T00:00:00Z'), 'video1'));
+    storage.saveSession(createSession('user1', new Date('2024-01-03T00:00:00Z'), 'video2'));
+
+    const deleted = storage.deleteSessionsAccessedBefore(new Date('2024-01-02T00:00:00Z'));
+
+    expect(deleted).toEqual([]);
+    expect(storage.listSessions('user1').map((s) => s.video_id)).toEqual(['video2']);
+  });
+
+  it('should cache transcripts in insertion order', () => {
+    storage.saveTranscript('a', createTranscript('a'));
+    storage.saveTranscript('b', createTranscript('b'));
+    storage.saveTranscript('a', createTranscript('a'));
+
+    expect(storage.getTranscript('b')).toEqual(createTranscript('b'));
+    expect(storage.getOldestTranscriptId()).toBe('a');
+    expect(storage.countTranscripts()).toBe(2);
+
+    storage.deleteTranscript('a');
+
+    expect(storage.getTranscript('a')).toBeNull();
+    expect(storage.getOldestTranscriptId()).toBe('b');
+  });
+
+  it('should cache summaries per video and language', () => {
+    const summary = (title: string): Summary => ({
+      title,
+      key_points: ['One'],
+      timestamps: [{ time: '0:00', description: 'Start' }],
+      core_takeaway: 'Done',
+    });
+    storage.saveSummary('a', 'en', summary('A'));
+    storage.saveSummary('a', 'hi', summary('A hi'));
+    storage.saveSummary('a', 'hi', summary('A hi again'));
+    storage.saveSummary('b', 'en', summary('B'));
+
+    expect(storage.getSummary('a', 'hi')).toEqual(summary('A hi again'));
+
+    storage.deleteSummaries('a');
+
+    expect(storage.getSummary('a', 'en')).toBeNull();
+    expect(storage.getSummary('a', 'hi')).toBeNull();
+    expect(storage.getSummary('b', 'en')).toEqual(summary('B'));
+  });
+
+  it('should keep quota counters per user and quota', () => {
+    const windowStart = new Date('2024-01-01T10:00:00Z');
+    storage.saveQuotaCounter('user1', 'videos', { count: 1, window_start: windowStart });
+    storage.saveQuotaCounter('user1', 'videos', { count: 2, window_start: windowStart });
+    storage.saveQuotaCounter('user1', 'questions', { count: 5, window_start: windowStart });
+
+    expect(storage.getQuotaCounter('user1', 'videos')).toEqual({ count: 2, window_start: windowStart });
+    expect(storage.getQuotaCounter('user1', 'questions')).toEqual({ count: 5, window_start: windowStart });
+    expect(storage.getQuotaCounter('user2', 'videos')).toBeNull();
+  });
+
+  it('should return null for unknown keys', () => {
+    expect(storage.getSession('nobody')).toBeNull();
+    expect(storage.getTranscript('nothing')).toBeNull();
+    expect(storage.getOldestTranscriptId()).toBeNull();
+  });
+});
+
+describe('SqliteStorage - Persistence', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bot-storage-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should keep sessions and transcripts across reopening the file', () => {
+    const filePath = path.join(dir, 'nested', 'bot.db');
+
+    const first = new SqliteStorage(filePath);
+    first.saveSession(createSession('user1'));
+    first.setActiveSession('user1', 'video1');
+    first.saveTranscript('video1', createTranscript('video1'));
+    first.close();
+
+    const second = new SqliteStorage(filePath);
+    expect(second.getSession('user1')).toEqual(createSession('user1', second.getSession('user1')!.last_accessed));
+    expect(second.getTranscript('video1')).toEqual(createTranscript('video1'));
+    second.close();
+  });
+
+  it('should store each transcript once for all sessions of the video', () => {
+    const filePath = path.join(dir, 'bot.db');
+    const storage = new SqliteStorage(filePath);
+    storage.saveSession(createSession('user1'));
+    storage.saveSession(createSession('user2'));
+    storage.saveTranscript('video1', createTranscript('video1'));
+    storage.close();
+
+    const db = new Database(filePath);
+    const sessionColumns = (db.prepare('PRAGMA table_info(video_sessions)').all() as { name: string }[]).map((c) => c.name);
+    const transcripts = db.prepare('SELECT COUNT(*) AS count FROM transcripts').get() as { count: number };
+    db.close();
+
+    expect(sessionColumns).not.toContain('transcript');
+    expect(transcripts.count).toBe(1);
+  });
+});
+
+describe('SqliteStorage - Migrations', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bot-storage-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should move single-session databases to per-video sessions', () => {
+    const filePath = path.join(dir, 'bot.db');
+    const session = createSession('user1', new Date('2024-01-02T00:00:00Z'));
+
+    // Database as written before sessions were kept per video
+    const legacy = new Database(filePath);
+    legacy.exec(`
+      CREATE TABLE sessions (user_id TEXT PRIMARY KEY, video_id TEXT NOT NULL, transcript TEXT NOT NULL,
+        chunks TEXT NOT NULL, language TEXT NOT NULL, created_at TEXT NOT NULL, last_accessed TEXT NOT NULL);
+      CREATE TABLE qa_history (id INTEGER PRIMARY KEY AUTOINCREMENT, user_id TEXT NOT NULL,
+        question TEXT NOT NULL, answer TEXT NOT NULL, timestamp TEXT NOT NULL);
+      CREATE INDEX idx_qa_history_user ON qa_history (user_id);
+      CREATE TABLE transcripts (video_id TEXT PRIMARY KEY, transcript TEXT NOT NULL, cached_at INTEGER NOT NULL);
+    `);
+    legacy.prepare('INSERT INTO sessions VALUES (?, ?, ?, ?, ?, ?, ?)').run(
+      'user1', 'video1', JSON.stringify(session.transcript), '[]', 'hi',
+      session.created_at.toISOString(), session.last_accessed.toISOString()
+    );
+    legacy.prepare('INSERT INTO qa_history (user_id, question, answer, timestamp) VALUES (?, ?, ?, ?)').run(
+      'user1', 'What?', 'That.', '2024-01-01T00:01:00.000Z'
+    );
+    legacy.close();
+
+    const storage = new SqliteStorage(filePath);
+    expect(storage.getSession('user1')).toEqual(session);
+    expect(storage.listSessions('user1')).toHaveLength(1);
+    storage.close();
+  });
+});
@@ -0,0 +1,38 @@
+import { bold, code, escapeHtml, link, toMarkdown, toPlainText } from '../src/utils/telegramHtml';
+
+describe('Telegram HTML - Unit Tests', () => {
+  it('should escape characters Telegram parses as markup', () => {
+    expect(escapeHtml('a < b && c > "d"')).toBe('a &lt; b &amp;&amp; c &gt; &quot;d&quot;');
+  });
+
+  it('should escape the content of formatting helpers', () => {
+    expect(bold('Q&A')).toBe('<b>Q&amp;A</b>');
+    expect(code('/switch <n>')).toBe('<code>/switch &lt;n&gt;</code>');
+    expect(link('https://youtu.be/x?t=5&a="b"', '0:05')).toBe('<a href="https://youtu.be/x?t=5&amp;a=&quot;b&quot;">0:05</a>');
+  });
+
+  it('should turn escaped values that are not strings into text', () => {
+    expect(escapeHtml(undefined as any)).toBe('');
+    expect(escapeHtml(42 as any)).toBe('42');
+  });
+
+  it('should convert replies to plain text with link URLs', () => {
+    const html = `${bold('🎥 Q&A')}\n• ${link('https://youtu.be/x?t=5', '0:05')} - ${escapeHtml('<intro>')}\n${code('/switch <n>')}`;
+
+    expect(toPlainText(html)).toBe('🎥 Q&A\n• 0:05 https://youtu.be/x?t=5 - <intro>\n/switch <n>');
+  });
+
+  it('should convert replies to Markdown', () => {
+    const html = `${bold('📌 Key Points:')}\n${link('https://youtu.be/x?t=5', '0:05')} ${code('/help')} &amp;lt;`;
+
+    expect(toMarkdown(html)).toBe('**📌 Key Points:**\n[0:05](https://youtu.be/x?t=5) `/help` &lt;');
+  });
+
+  it('should round-trip any text through escaping and plain text', () => {
+    const samples = ['plain', '<b>not bold</b>', '&amp; stays', 'a<b>c&d"e', 'தமிழ் <உரை>'];
+
+    samples.forEach((text) => {
+      expect(toPlainText(escapeHtml(text))).toBe(text);
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { formatTimestamp, parseTimestamp } from '../src/utils/timeFormat';
+import * as fc from 'fast-check';
+
+describe('Time Format - Unit Tests', () => {
+  describe('formatTimestamp', () => {
+    it('should format times under an hour as M:SS', () => {
+      expect(formatTimestamp(0)).toBe('0:00');
+      expect(formatTimestamp(30)).toBe('0:30');
+      expect(formatTimestamp(135)).toBe('2:15');
+    });
+
+    it('should format times over an hour as H:MM:SS', () => {
+      expect(formatTimestamp(3600)).toBe('1:00:00');
+      expect(formatTimestamp(3725)).toBe('1:02:05');
+    });
+
+    it('should drop fractional seconds', () => {
+      expect(formatTimestamp(61.9)).toBe('1:01');
+    });
+  });
+
+  describe('parseTimestamp', () => {
+    it('should parse M:SS, MM:SS and H:MM:SS', () => {
+      expect(parseTimestamp('0:30')).toBe(30);
+      expect(parseTimestamp('12:05')).toBe(725);
+      expect(parseTimestamp('1:02:05')).toBe(3725);
+    });
+
+    it('should accept bracketed markers and bare seconds', () => {
+      expect(parseTimestamp('[2:15]')).toBe(135);
+      expect(parseTimestamp('45')).toBe(45);
+    });
+
+    it('should return null for invalid timestamps', () => {
+      expect(parseTimestamp('')).toBeNull();
+      expect(parseTimestamp('soon')).toBeNull();
+      expect(parseTimestamp('1:75')).toBeNull();
+      expect(parseTimestamp(undefined as any)).toBeNull();
+    });
+  });
+});
+
+describe('Time Format - Property-Based Tests', () => {
+  /**
+   * Property: Formatting and parsing round-trip
+   * Any whole number of seconds should survive formatting and parsing unchanged
+   */
+  it('should round-trip whole seconds through format and parse', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 0, max: 100000 }), (seconds) => {
+        expect(parseTimestamp(formatTimestamp(seconds))).toBe(seconds);
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
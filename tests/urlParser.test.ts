@@ -1,4 +1,4 @@
-import { extractVideoId, isYouTubeUrl, isValidVideoId } from '../src/utils/urlParser';
+import { extractVideoId, isYouTubeUrl, isValidVideoId, buildTimestampUrl } from '../src/utils/urlParser';
 import * as fc from 'fast-check';
 
 describe('URL Parser - Unit Tests', () => {
@@ -79,6 +79,16 @@ describe('URL Parser - Unit Tests', () => {
       expect(isValidVideoId('')).toBe(false);
     });
   });
+
+  describe('buildTimestampUrl', () => {
+    it('should build a youtu.be link starting at whole seconds', () => {
+      expect(buildTimestampUrl('dQw4w9WgXcQ', 135.7)).toBe('https://youtu.be/dQw4w9WgXcQ?t=135');
+    });
+
+    it('should clamp negative positions to the start', () => {
+      expect(buildTimestampUrl('dQw4w9WgXcQ', -5)).toBe('https://youtu.be/dQw4w9WgXcQ?t=0');
+    });
+  });
 });
 
 describe('URL Parser - Property-Based Tests', () => {
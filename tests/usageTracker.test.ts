@@ -0,0 +1,105 @@
+import { MeteredProvider, UsageTracker } from '../src/utils/usageTracker';
+import { AIUsage } from '../src/utils/aiProvider';
+
+const usage = (model: string, prompt_tokens: number, completion_tokens: number): AIUsage => ({
+  prompt_tokens,
+  completion_tokens,
+  model,
+  latency_ms: 100,
+});
+
+describe('Usage Tracker - Unit Tests', () => {
+  let tracker: UsageTracker;
+
+  beforeEach(() => {
+    tracker = new UsageTracker({
+      'gpt-4o': { prompt: 2.5, completion: 10 },
+      'gpt-4o-mini': { prompt: 0.15, completion: 0.6 },
+    });
+  });
+
+  it('should estimate cost from the price per million tokens', () => {
+    expect(tracker.estimateCost(usage('gpt-4o', 1_000_000, 100_000))).toBeCloseTo(3.5);
+  });
+
+  it('should price versioned model names by the longest matching name', () => {
+    expect(tracker.estimateCost(usage('gpt-4o-mini-2024-07-18', 1_000_000, 0))).toBeCloseTo(0.15);
+    expect(tracker.estimateCost(usage('gpt-4o-2024-08-06', 1_000_000, 0))).toBeCloseTo(2.5);
+  });
+
+  it('should count models without a price as free and report them', () => {
+    tracker.record(usage('llama3.1:8b', 500, 200), 'qa');
+
+    const report = tracker.getReport();
+    expect(report.total.cost).toBe(0);
+    expect(report.total.prompt_tokens).toBe(500);
+    expect(report.unpriced_models).toEqual(['llama3.1:8b']);
+  });
+
+  it('should attribute usage to the user and operation', async () => {
+    await tracker.runForUser('alice', async () => {
+      tracker.record(usage('gpt-4o', 1000, 100), 'summary');
+      tracker.record(usage('gpt-4o', 2000, 200), 'chunk_summary');
+    });
+    await tracker.runForUser('bob', async () => {
+      tracker.record(usage('gpt-4o-mini', 300, 30), 'translation');
+    });
+    tracker.record(usage('gpt-4o-mini', 10, 1));
+
+    const report = tracker.getReport();
+    expect(report.total.requests).toBe(4);
+    expect(report.by_user.get('alice')).toMatchObject({ requests: 2, prompt_tokens: 3000, completion_tokens: 300 });
+    expect(report.by_user.get('bob')).toMatchObject({ requests: 1, prompt_tokens: 300 });
+    expect(report.by_user.get('unknown')).toMatchObject({ requests: 1 });
+    expect(report.by_operation.get('summary')).toMatchObject({ requests: 2 });
+    expect(report.by_operation.get('translate')).toMatchObject({ requests: 1 });
+    expect(report.by_operation.get('other')).toMatchObject({ requests: 1 });
+    expect(report.by_model.get('gpt-4o')!.cost).toBeCloseTo((3000 * 2.5 + 300 * 10) / 1_000_000);
+  });
+
+  it('should pass the user and usage of each request to listeners', async () => {
+    const listener = jest.fn();
+    tracker.onRecord(listener);
+
+    await tracker.runForUser('alice', async () => tracker.record(usage('gpt-4o', 100, 10), 'qa'));
+
+    expect(listener).toHaveBeenCalledWith('alice', usage('gpt-4o', 100, 10));
+  });
+
+  it('should keep users apart in concurrent handlers', async () => {
+    const recordLater = (userId: string, delay: number) =>
+      tracker.runForUser(userId, async () => {
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        tracker.record(usage('gpt-4o', 100, 10), 'qa');
+      });
+
+    await Promise.all([recordLater('alice', 20), recordLater('bob', 5)]);
+
+    const report = tracker.getReport();
+    expect(report.by_user.get('alice')!.requests).toBe(1);
+    expect(report.by_user.get('bob')!.requests).toBe(1);
+  });
+
+  describe('MeteredProvider', () => {
+    it('should record reported usage with the request task', async () => {
+      const generateCompletion = jest.fn().mockResolvedValue({ content: '{}', usage: usage('gpt-4o', 100, 10) });
+      const provider = new MeteredProvider({ generateCompletion }, tracker);
+
+      const response = await tracker.runForUser('alice', () =>
+        provider.generateCompletion('system', 'user', 0.3, { task: 'action_points' })
+      );
+
+      expect(response.content).toBe('{}');
+      expect(generateCompletion).toHaveBeenCalledWith('system', 'user', 0.3, { task: 'action_points' });
+      expect(tracker.getReport().by_operation.get('actionpoints')).toMatchObject({ requests: 1, prompt_tokens: 100 });
+    });
+
+    it('should pass through responses without usage', async () => {
+      const provider = new MeteredProvider({ generateCompletion: jest.fn().mockResolvedValue({ content: '{}' }) }, tracker);
+
+      await provider.generateCompletion('system', 'user');
+
+      expect(tracker.getReport().total.requests).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import { VectorIndex, cosineSimilarity, reciprocalRankFusion } from '../src/utils/vectorIndex';
+
+describe('Vector Index - Unit Tests', () => {
+  describe('cosineSimilarity', () => {
+    it('should be 1 for identical directions and 0 for orthogonal vectors', () => {
+      expect(cosineSimilarity([1, 2], [2, 4])).toBeCloseTo(1);
+      expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+    });
+
+    it('should be 0 when a vector is all zeros', () => {
+      expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+    });
+  });
+
+  describe('VectorIndex', () => {
+    const index = new VectorIndex([
+      [1, 0, 0],
+      [0.8, 0.6, 0],
+      [0, 0, 1],
+    ]);
+
+    it('should rank documents by similarity to the query', () => {
+      const results = index.search([1, 0.1, 0]);
+
+      expect(results.map((result) => result.index)).toEqual([0, 1]);
+    });
+
+    it('should apply limit and minimum score', () => {
+      expect(index.search([1, 0, 0], 1)).toHaveLength(1);
+      expect(index.search([1, 0, 0], 3, 0.9).map((result) => result.index)).toEqual([0]);
+    });
+  });
+
+  describe('reciprocalRankFusion', () => {
+    it('should favour documents ranked well by both retrievers', () => {
+      const fused = reciprocalRankFusion([
+        [{ index: 0, score: 9 }, { index: 1, score: 5 }],
+        [{ index: 1, score: 0.9 }, { index: 2, score: 0.8 }],
+      ]);
+
+      expect(fused[0].index).toBe(1);
+      expect(fused.map((result) => result.index).sort()).toEqual([0, 1, 2]);
+    });
+
+    it('should return an empty ranking for no input', () => {
+      expect(reciprocalRankFusion([[], []])).toEqual([]);
+    });
+  });
+});